@@ -0,0 +1,96 @@
+import { bold, cyan, dim, green, red, yellow } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { ensureUnlocked } from "@/commands/unlock.js";
+import { AUDIT_SEVERITIES, auditPasswords, collectAuditItems, compareSeverity, type AuditFinding, type AuditSeverity } from "@/lib/audit.js";
+import { getDefaultPasswordOptions, loadConfig } from "@/lib/config.js";
+import { EXIT_CODES, exitCodeFor, ValidationError } from "@/lib/errors.js";
+import { hasHistory, loadHistory } from "@/lib/history.js";
+import { getOutputMode, printJson } from "@/lib/output.js";
+import { hasVault, loadVault } from "@/lib/vault.js";
+
+const FAIL_ON_LEVELS = [...AUDIT_SEVERITIES, "never"] as const;
+
+const SEVERITY_COLORS: Record<AuditSeverity, (text: string) => string> = { high: red, medium: yellow, low: dim };
+
+export const auditCommand = new Command()
+  .name("audit")
+  .description("🔎 Audit stored passwords for reuse, weakness, age and outdated settings")
+  .option("--max-age <days>", "flag passwords set more than this many days ago (0 = never, defaults to config rotationDays)")
+  .option("-m, --min-score <score>", "flag passwords whose strength score is below this (0-4, defaults to config checkMinScore)")
+  .option("--fail-on <severity>", `exit with 1 when a finding is at least this severe (${FAIL_ON_LEVELS.join("|")})`, "high")
+  .action(async (options: { maxAge?: string; minScore?: string; failOn: string }) => {
+    try {
+      const config = await loadConfig();
+      const rotationDays = options.maxAge !== undefined ? parseBounded(options.maxAge, "--max-age", 0, 3650) : config.rotationDays;
+      const minScore = options.minScore !== undefined ? parseBounded(options.minScore, "--min-score", 0, 4) : config.checkMinScore;
+      if (!(FAIL_ON_LEVELS as readonly string[]).includes(options.failOn)) {
+        throw new ValidationError(`--fail-on must be one of: ${FAIL_ON_LEVELS.join(", ")}`);
+      }
+
+      const [storesHistory, storesVault] = await Promise.all([hasHistory(), hasVault()]);
+      if (storesHistory || storesVault) {
+        await ensureUnlocked();
+      }
+
+      const history = storesHistory ? await loadHistory() : [];
+      const vault = storesVault ? await loadVault() : [];
+      const findings = auditPasswords(collectAuditItems(history, vault), { minScore, rotationDays, defaults: getDefaultPasswordOptions(config) });
+      const failed = options.failOn !== "never" && findings.some((finding) => compareSeverity(finding.severity, options.failOn as AuditSeverity) >= 0);
+
+      if (getOutputMode() === "json") {
+        printJson({ scanned: { vault: vault.length, history: history.length }, policy: { minScore, rotationDays, failOn: options.failOn }, summary: summarize(findings), failed, findings });
+      } else if (getOutputMode() === "quiet") {
+        findings.forEach((finding) => console.log([finding.severity, finding.check, finding.source, finding.id, finding.message].join("\t")));
+      } else {
+        printReport(findings, vault.length, history.length);
+      }
+
+      if (failed) {
+        process.exit(EXIT_CODES.failure);
+      }
+    } catch (error) {
+      if (error && typeof error === "object" && "message" in error) {
+        consola.error("Audit failed:", error.message);
+      } else {
+        consola.error("An unexpected error occurred");
+      }
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+function printReport(findings: AuditFinding[], vaultCount: number, historyCount: number) {
+  console.log(cyan(`\n🔎 Password Audit (${vaultCount} vault entries, ${historyCount} history entries)`));
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  if (findings.length === 0) {
+    console.log(green("✅ No findings"));
+  } else {
+    console.log(bold(`${"SEVERITY".padEnd(9)} ${"CHECK".padEnd(15)} ${"ENTRY".padEnd(32)} DETAILS`));
+    for (const finding of findings) {
+      const color = SEVERITY_COLORS[finding.severity];
+      console.log(`${color(finding.severity.padEnd(9))} ${finding.check.padEnd(15)} ${truncate(finding.label, 32).padEnd(32)} ${dim(finding.message)}`);
+    }
+  }
+
+  const summary = summarize(findings);
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(`${findings.length} finding${findings.length === 1 ? "" : "s"}: ${[...AUDIT_SEVERITIES].reverse().map((severity) => `${summary[severity]} ${severity}`).join(", ")}\n`);
+}
+
+function summarize(findings: AuditFinding[]): Record<AuditSeverity, number> {
+  return Object.fromEntries(AUDIT_SEVERITIES.map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length])) as Record<AuditSeverity, number>;
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function parseBounded(value: string, flag: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new ValidationError(`${flag} must be a whole number between ${min} and ${max}`);
+  }
+  return number;
+}
@@ -0,0 +1,100 @@
+import { isCancel, password } from "@clack/prompts";
+import { bold, cyan, dim, green, red } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+import os from "node:os";
+
+import { printStrengthReport } from "@/commands/gen.js";
+import { lookupBreach } from "@/lib/breach.js";
+import { loadConfig } from "@/lib/config.js";
+import { exitCodeFor, ValidationError } from "@/lib/errors.js";
+import { estimateStrength } from "@/lib/strength.js";
+
+export const checkCommand = new Command()
+  .name("check")
+  .description("🩺 Check an existing password's strength and whether it has been breached")
+  .option("-b, --breach-file <path>", "Pwned Passwords corpus: a hash-sorted file or a directory of range files (defaults to config breachCorpusPath)")
+  .option("-m, --min-score <score>", "fail when the strength score is below this (0-4, defaults to config checkMinScore)")
+  .option("--allow-breached", "don't fail when the password appears in the breach corpus", false)
+  .action(async (options) => {
+    try {
+      const config = await loadConfig();
+      const minScore = options.minScore !== undefined ? parseInt(options.minScore, 10) : config.checkMinScore;
+
+      if (isNaN(minScore) || minScore < 0 || minScore > 4) {
+        throw new ValidationError("Minimum score must be between 0 and 4");
+      }
+
+      const secret = await readSecretInput("Password to check:");
+      if (!secret) {
+        throw new ValidationError("No password given");
+      }
+
+      const strength = estimateStrength(secret);
+      console.log(cyan("\n🩺 Password Check"));
+      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+      printStrengthReport(strength);
+
+      let breachCount: number | null = null;
+      // Config values don't go through the shell, so expand a leading ~ ourselves
+      const corpusPath = (options.breachFile ?? config.breachCorpusPath)?.replace(/^~(?=$|[\\/])/, os.homedir());
+
+      if (corpusPath) {
+        breachCount = (await lookupBreach(corpusPath, secret)).count;
+        console.log(
+          breachCount > 0
+            ? red(`\n🚨 Found in the breach corpus ${breachCount.toLocaleString()} time${breachCount === 1 ? "" : "s"}`)
+            : green("\n✅ Not found in the breach corpus"),
+        );
+      } else {
+        console.log(dim("\nNo breach corpus configured (pass --breach-file or set breachCorpusPath)"));
+      }
+
+      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+
+      const failures: string[] = [];
+      if (strength.score < minScore) {
+        failures.push(`score ${strength.score} is below the minimum of ${minScore}`);
+      }
+      if (breachCount && !options.allowBreached) {
+        failures.push("password appears in known breaches");
+      }
+
+      if (failures.length > 0) {
+        consola.error(`${bold("Check failed:")} ${failures.join("; ")}`);
+        process.exit(1);
+      }
+
+      consola.success("Check passed");
+    } catch (error) {
+      if (error && typeof error === "object" && "message" in error) {
+        consola.error("Check failed:", error.message);
+      } else {
+        consola.error("An unexpected error occurred");
+      }
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+/**
+ * Reads a secret from a hidden prompt, or from stdin when it is piped in.
+ * Secrets are deliberately never accepted as arguments, where they would end
+ * up in shell history and process listings.
+ */
+export async function readSecretInput(message: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    // Only the first line counts, so `echo secret | gmana check` works as expected
+    return Buffer.concat(chunks).toString("utf8").split(/\r?\n/)[0];
+  }
+
+  const value = await password({ message });
+  if (isCancel(value)) {
+    throw new Error("Cancelled");
+  }
+
+  return value;
+}
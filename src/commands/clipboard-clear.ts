@@ -0,0 +1,22 @@
+import { Command } from "commander";
+
+import { CLIPBOARD_CLEAR_COMMAND, runClearRequest } from "@/lib/clipboard.js";
+
+/**
+ * Internal helper spawned by `copySecret`; not meant to be run by hand.
+ */
+export const clipboardClearCommand = new Command()
+  .name(CLIPBOARD_CLEAR_COMMAND)
+  .description("Clear the clipboard after a delay (internal)")
+  .action(async () => {
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(Buffer.from(chunk));
+      }
+      await runClearRequest(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      // Nobody is watching a detached helper, so there is nowhere to report to
+      process.exit(1);
+    }
+  });
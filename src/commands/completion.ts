@@ -0,0 +1,59 @@
+import { Command } from "commander";
+import consola from "consola";
+
+import { COMPLETION_SHELLS, COMPLETION_SOURCES, generateCompletionScript, type CompletionShell, type CompletionSource } from "@/lib/completion.js";
+import { CONFIG_KEYS } from "@/lib/config.js";
+import { loadDerivedSites } from "@/lib/derive.js";
+import { EXIT_CODES } from "@/lib/errors.js";
+import { listProfiles } from "@/lib/profiles.js";
+
+export const completionCommand = new Command()
+  .name("completion")
+  .description("🐚 Print a shell completion script")
+  .argument("<shell>", `shell to complete in (${COMPLETION_SHELLS.join("|")})`)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  source <(gmana completion bash)          # add to ~/.bashrc
+  source <(gmana completion zsh)           # add to ~/.zshrc, after compinit
+  gmana completion fish > ~/.config/fish/completions/gmana.fish`,
+  )
+  .action((shell: string, _options: unknown, command: Command) => {
+    if (!(COMPLETION_SHELLS as readonly string[]).includes(shell)) {
+      consola.error(`Shell must be one of: ${COMPLETION_SHELLS.join(", ")}`);
+      process.exit(EXIT_CODES.validation);
+    }
+
+    process.stdout.write(generateCompletionScript(shell as CompletionShell, command.parent ?? command));
+  });
+
+/** Called by the completion scripts; prints one candidate per line and stays silent on errors */
+export const completeCommand = new Command()
+  .name("__complete")
+  .argument("<source>", COMPLETION_SOURCES.join("|"))
+  .action(async (source: string) => {
+    try {
+      const candidates = await listCandidates(source as CompletionSource);
+      if (candidates.length > 0) {
+        process.stdout.write(candidates.join("\n") + "\n");
+      }
+    } catch {
+      // A broken config file shouldn't spill errors into the prompt
+    }
+  });
+
+async function listCandidates(source: CompletionSource): Promise<string[]> {
+  switch (source) {
+    case "config-keys":
+      return [...CONFIG_KEYS];
+    case "config-assignments":
+      return CONFIG_KEYS.map((key) => `${key}=`);
+    case "profiles":
+      return (await listProfiles()).map((profile) => profile.name);
+    case "derive-sites":
+      return [...new Set((await loadDerivedSites()).map((site) => site.site))];
+    default:
+      return [];
+  }
+}
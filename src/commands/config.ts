@@ -1,9 +1,34 @@
 import { confirm, intro, outro, select, text } from "@clack/prompts";
-import { bold, cyan, green } from "colorette";
+import { bold, cyan, dim, green } from "colorette";
 import { Command } from "commander";
 import consola from "consola";
-
-import { loadConfig, saveConfig, type Config } from "@/lib/config.js";
+import fs from "fs-extra";
+import { spawnSync } from "node:child_process";
+import path from "node:path";
+
+import { profileCommand } from "@/commands/profile.js";
+import { exitCodeFor, UsageError, ValidationError } from "@/lib/errors.js";
+import { getOutputMode, printJson } from "@/lib/output.js";
+import {
+  checkConfigFile,
+  CONFIG_KEYS,
+  CONFIG_VERSION,
+  describeConfigKey,
+  describeConfigSource,
+  getWritableConfigFile,
+  loadConfig,
+  parseConfigValue,
+  resetConfigFile,
+  resolveConfig,
+  resolveConfigKey,
+  saveConfig,
+  unsetConfigValue,
+  type Config,
+  type ConfigKey,
+  type ConfigSource,
+} from "@/lib/config.js";
+
+const SOURCE_ORDER: ConfigSource["kind"][] = ["default", "global", "project", "env", "flag"];
 
 export const configCommand = new Command()
   .name("config")
@@ -12,8 +37,9 @@ export const configCommand = new Command()
   .option("-s, --show", "show current configuration")
   .option("-r, --reset", "reset to default configuration")
   .option("--set <key=value>", "set a configuration value")
-  .action(async (options) => {
-    try {
+  .addCommand(profileCommand)
+  .action((options) =>
+    runConfigAction(async () => {
       if (options.show) {
         await showConfig();
       } else if (options.reset) {
@@ -23,38 +49,132 @@ export const configCommand = new Command()
       } else {
         await interactiveConfig();
       }
-    } catch (error) {
-      if (error && typeof error === "object" && "message" in error) {
-        consola.error("Configuration failed:", error.message);
-      } else {
-        consola.error("An unexpected error occurred");
-      }
-      process.exit(1);
+    }),
+  );
+
+configCommand.addCommand(
+  new Command()
+    .name("get")
+    .description("Print the effective value of a setting")
+    .argument("<key>", "setting name (see `config list`)")
+    .action((name: string) =>
+      runConfigAction(async () => {
+        const key = resolveConfigKey(name);
+        const { config } = await resolveConfig();
+        const value = config[key];
+        if (value !== undefined) {
+          console.log(typeof value === "object" ? JSON.stringify(value, null, 2) : String(value));
+        }
+      }),
+    ),
+);
+
+configCommand.addCommand(
+  new Command()
+    .name("set")
+    .description("Set a value in the config file")
+    .argument("<key>", "setting name, or key=value")
+    .argument("[value]", "new value; booleans accept true/false, yes/no, on/off, 1/0")
+    .action((name: string, value: string | undefined) => runConfigAction(() => setConfigValue(value === undefined ? name : `${name}=${value}`))),
+);
+
+configCommand.addCommand(
+  new Command()
+    .name("unset")
+    .description("Remove a value from the config file so it falls back to the default")
+    .argument("<key>", "setting name")
+    .action((name: string) =>
+      runConfigAction(async () => {
+        const key = resolveConfigKey(name);
+        await unsetConfigValue(key);
+
+        const { config, sources } = await resolveConfig();
+        consola.success(`✅ Removed ${key}; now ${formatValue(config[key])} (${describeConfigSource(sources[key])})`);
+      }),
+    ),
+);
+
+configCommand.addCommand(
+  new Command()
+    .name("list")
+    .alias("ls")
+    .description("List every setting with its value, source and description")
+    .action(() => runConfigAction(listConfig)),
+);
+
+configCommand.addCommand(
+  new Command()
+    .name("edit")
+    .description("Open the config file in $VISUAL or $EDITOR and validate it after saving")
+    .action(() => runConfigAction(editConfig)),
+);
+
+async function runConfigAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    if (error && typeof error === "object" && "message" in error) {
+      consola.error("Configuration failed:", error.message);
+    } else {
+      consola.error("An unexpected error occurred");
     }
-  });
+    process.exit(exitCodeFor(error));
+  }
+}
 
 async function showConfig() {
-  const config = await loadConfig();
+  const { config, sources } = await resolveConfig();
+
+  if (getOutputMode() === "json") {
+    printJson({
+      file: await getWritableConfigFile(),
+      settings: Object.fromEntries(CONFIG_KEYS.map((key) => [key, { value: config[key] ?? null, source: sources[key].kind, location: sources[key].location ?? null }])),
+    });
+    return;
+  }
+
+  if (getOutputMode() === "quiet") {
+    CONFIG_KEYS.forEach((key) => console.log(`${key}=${config[key] === undefined ? "" : formatValue(config[key])}`));
+    return;
+  }
 
   console.log(cyan("\n📋 Current Configuration:"));
-  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-
-  const configEntries = [
-    ["Default Length", config.defaultLength],
-    ["Include Uppercase", config.defaultIncludeUppercase ? "✅" : "❌"],
-    ["Include Lowercase", config.defaultIncludeLowercase ? "✅" : "❌"],
-    ["Include Numbers", config.defaultIncludeNumbers ? "✅" : "❌"],
-    ["Include Symbols", config.defaultIncludeSymbols ? "✅" : "❌"],
-    ["Auto Copy", config.autoCopy ? "✅" : "❌"],
-    ["Save History", config.saveHistory ? "✅" : "❌"],
-    ["History Limit", config.historyLimit],
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  const configEntries: [string, string | number, ConfigKey[]][] = [
+    ["Default Length", config.defaultLength, ["defaultLength"]],
+    ["Include Uppercase", config.defaultIncludeUppercase ? "✅" : "❌", ["defaultIncludeUppercase"]],
+    ["Include Lowercase", config.defaultIncludeLowercase ? "✅" : "❌", ["defaultIncludeLowercase"]],
+    ["Include Numbers", config.defaultIncludeNumbers ? "✅" : "❌", ["defaultIncludeNumbers"]],
+    ["Include Symbols", config.defaultIncludeSymbols ? "✅" : "❌", ["defaultIncludeSymbols"]],
+    ["Require Each Class", config.defaultRequireEachClass ? "✅" : "❌", ["defaultRequireEachClass"]],
+    ["Pronounceable", config.defaultPronounceable ? "✅" : "❌", ["defaultPronounceable"]],
+    ["Min Upper/Lower", `${config.defaultMinUppercase} / ${config.defaultMinLowercase}`, ["defaultMinUppercase", "defaultMinLowercase"]],
+    ["Min Numbers/Symbols", `${config.defaultMinNumbers} / ${config.defaultMinSymbols}`, ["defaultMinNumbers", "defaultMinSymbols"]],
+    ["Auto Copy", config.autoCopy ? "✅" : "❌", ["autoCopy"]],
+    ["Clipboard Clear", config.clipboardClearSeconds > 0 ? `${config.clipboardClearSeconds}s` : "never", ["clipboardClearSeconds"]],
+    ["Clipboard Restore", config.clipboardRestore ? "✅" : "❌", ["clipboardRestore"]],
+    ["Save History", config.saveHistory ? "✅" : "❌", ["saveHistory"]],
+    ["History Limit", config.historyLimit, ["historyLimit"]],
+    ["History Max Age", config.historyMaxAgeDays > 0 ? `${config.historyMaxAgeDays} days` : "unlimited", ["historyMaxAgeDays"]],
+    ["Session Timeout", `${config.sessionTimeout} min`, ["sessionTimeout"]],
+    ["Profiles", Object.keys(config.profiles).length, ["profiles"]],
+    ["Default Profile", config.defaultProfile ?? "—", ["defaultProfile"]],
+    ["Breach Corpus", config.breachCorpusPath ?? "—", ["breachCorpusPath"]],
+    ["Check Min Score", `${config.checkMinScore}/4`, ["checkMinScore"]],
+    ["Rotation Age", config.rotationDays > 0 ? `${config.rotationDays} days` : "never", ["rotationDays"]],
   ];
 
-  configEntries.forEach(([key, value]) => {
-    console.log(`${bold(key.toString().padEnd(20))}: ${value}`);
+  configEntries.forEach(([key, value, keys]) => {
+    // For rows covering several keys, show the highest-precedence source involved
+    const source = keys.map((name) => sources[name]).sort((a, b) => SOURCE_ORDER.indexOf(b.kind) - SOURCE_ORDER.indexOf(a.kind))[0];
+    // ✅ and ❌ take two columns in a terminal
+    const width = /[✅❌]/.test(String(value)) ? 19 : 20;
+    console.log(`${bold(key.padEnd(20))}: ${String(value).padEnd(width)} ${dim(describeConfigSource(source))}`);
   });
 
-  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(dim(`Changes are saved to ${await getWritableConfigFile()}\n`));
 }
 
 async function resetConfig() {
@@ -62,75 +182,100 @@ async function resetConfig() {
     message: "Are you sure you want to reset all settings to defaults?",
   });
 
-  if (confirmed) {
-    await saveConfig({
-      defaultLength: 12,
-      defaultIncludeUppercase: true,
-      defaultIncludeLowercase: true,
-      defaultIncludeNumbers: true,
-      defaultIncludeSymbols: true,
-      autoCopy: true,
-      saveHistory: false,
-      historyLimit: 100,
-    });
-    consola.success("🔄 Configuration reset to defaults");
+  if (confirmed === true) {
+    await resetConfigFile();
+    consola.success("🔄 Configuration reset to defaults (profiles were kept)");
   } else {
     consola.info("Operation cancelled");
   }
 }
 
 async function setConfigValue(keyValue: string) {
-  const [rawKey, rawValue] = keyValue.split("=");
-  const key = rawKey?.trim().toLowerCase();
-  const value = rawValue?.trim();
+  const separator = keyValue.indexOf("=");
 
-  if (!key || value === undefined) {
-    consola.error("❌ Invalid format. Use: --set key=value");
-    return;
+  if (separator <= 0) {
+    throw new UsageError("Invalid format. Use: config set <key> <value> or --set key=value");
   }
 
-  const updates: Partial<Config> = {};
+  const key = resolveConfigKey(keyValue.slice(0, separator));
+  const value = parseConfigValue(key, keyValue.slice(separator + 1));
 
-  const parseAndValidateNumber = (val: string, min: number, max: number, errorMsg: string): number | null => {
-    const num = parseInt(val, 10);
-    if (isNaN(num) || num < min || num > max) {
-      consola.error(`❌ ${errorMsg}`);
-      return null;
-    }
-    return num;
-  };
-
-  switch (key) {
-    case "defaultlength":
-    case "length": {
-      const length = parseAndValidateNumber(value, 4, 128, "Length must be between 4 and 128");
-      if (length === null) return;
-      updates.defaultLength = length;
-      break;
-    }
+  await saveConfig({ [key]: value });
+  consola.success(`✅ Updated ${key} = ${formatValue(value)}`);
 
-    case "autocopy":
-      updates.autoCopy = value.toLowerCase() === "true";
-      break;
+  // A project file, variable or --config may still win over the value just written
+  const { sources } = await resolveConfig();
+  const file = await getWritableConfigFile();
+  if (sources[key].location !== file) {
+    consola.warn(`${key} is overridden by ${describeConfigSource(sources[key])}`);
+  }
+}
 
-    case "savehistory":
-      updates.saveHistory = value.toLowerCase() === "true";
-      break;
+async function listConfig() {
+  const { config, sources } = await resolveConfig();
 
-    case "historylimit": {
-      const limit = parseAndValidateNumber(value, 0, 1000, "History limit must be between 0 and 1000");
-      if (limit === null) return;
-      updates.historyLimit = limit;
-      break;
-    }
+  console.log(cyan("\n📋 Configuration Keys:"));
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  CONFIG_KEYS.forEach((key) => {
+    const { type, description } = describeConfigKey(key);
+    const value = key === "profiles" ? `${Object.keys(config.profiles).length} saved` : formatValue(config[key]);
+    console.log(`${bold(key.padEnd(24))} ${value.padEnd(12)} ${dim(describeConfigSource(sources[key]))}`);
+    console.log(dim(`${"".padEnd(24)} ${description} (${type})`));
+  });
+
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(dim(`Changes are saved to ${await getWritableConfigFile()}\n`));
+}
+
+async function editConfig() {
+  const file = await getWritableConfigFile();
+  const original = (await fs.pathExists(file)) ? await fs.readFile(file, "utf8") : undefined;
+
+  if (original === undefined) {
+    await fs.ensureDir(path.dirname(file));
+    await fs.writeFile(file, JSON.stringify({ version: CONFIG_VERSION }, null, 2) + "\n");
+  }
 
-    default:
-      consola.error(`❌ Unknown configuration key: ${key}`);
+  for (;;) {
+    openEditor(file);
+
+    const problem = await checkConfigFile(file);
+    if (!problem) {
+      consola.success(`✅ Saved ${file}`);
       return;
+    }
+
+    consola.error(problem);
+    const retry = process.stdin.isTTY ? await confirm({ message: "Re-open the editor to fix it? (No restores the previous file)" }) : false;
+
+    if (retry !== true) {
+      if (original === undefined) {
+        await fs.remove(file);
+      } else {
+        await fs.writeFile(file, original);
+      }
+      throw new ValidationError(`${file} was restored; no changes were made`);
+    }
   }
+}
 
-  await saveConfig(updates);
-  consola.success(`✅ Updated ${key} = ${value}`);
+function openEditor(file: string) {
+  const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+  const [command, ...args] = editor.split(/\s+/).filter(Boolean);
+  const result = spawnSync(command, [...args, file], { stdio: "inherit" });
+
+  if (result.error) {
+    throw new Error(`Could not start editor "${editor}": ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    throw new Error(`Editor "${editor}" exited with code ${result.status}`);
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
 }
 
 async function interactiveConfig() {
@@ -202,12 +347,18 @@ async function configureDefaults(config: Config) {
     initialValue: config.defaultIncludeSymbols,
   });
 
+  const pronounceable = await confirm({
+    message: "Generate pronounceable passwords by default?",
+    initialValue: config.defaultPronounceable,
+  });
+
   await saveConfig({
     defaultLength: parseInt(length as string) || config.defaultLength,
     defaultIncludeUppercase: uppercase as boolean,
     defaultIncludeLowercase: lowercase as boolean,
     defaultIncludeNumbers: numbers as boolean,
     defaultIncludeSymbols: symbols as boolean,
+    defaultPronounceable: pronounceable as boolean,
   });
 }
 
@@ -217,7 +368,19 @@ async function configureBehavior(config: Config) {
     initialValue: config.autoCopy,
   });
 
-  await saveConfig({ autoCopy: autoCopy as boolean });
+  const clearText = await text({
+    message: "Clear the clipboard after how many seconds? (0 = never)",
+    placeholder: config.clipboardClearSeconds.toString(),
+    validate: (value) => {
+      const num = parseInt(value || config.clipboardClearSeconds.toString());
+      if (isNaN(num) || num < 0 || num > 3600) {
+        return "Delay must be between 0 and 3600 seconds";
+      }
+    },
+  });
+  const clearSeconds = parseInt((clearText as string) || config.clipboardClearSeconds.toString());
+
+  await saveConfig({ autoCopy: autoCopy as boolean, clipboardClearSeconds: clearSeconds });
 }
 
 async function configureHistory(config: Config) {
@@ -227,6 +390,7 @@ async function configureHistory(config: Config) {
   });
 
   let historyLimit = config.historyLimit;
+  let historyMaxAgeDays = config.historyMaxAgeDays;
 
   if (saveHistory) {
     const limitText = await text({
@@ -240,10 +404,23 @@ async function configureHistory(config: Config) {
       },
     });
     historyLimit = parseInt(limitText as string) || config.historyLimit;
+
+    const maxAgeText = await text({
+      message: "Delete entries older than how many days? (0 = never)",
+      placeholder: config.historyMaxAgeDays.toString(),
+      validate: (value) => {
+        const num = parseInt(value || config.historyMaxAgeDays.toString());
+        if (isNaN(num) || num < 0 || num > 3650) {
+          return "Max age must be between 0 and 3650 days";
+        }
+      },
+    });
+    historyMaxAgeDays = parseInt((maxAgeText as string) || config.historyMaxAgeDays.toString());
   }
 
   await saveConfig({
     saveHistory: saveHistory as boolean,
     historyLimit,
+    historyMaxAgeDays,
   });
 }
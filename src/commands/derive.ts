@@ -0,0 +1,182 @@
+import { confirm, isCancel } from "@clack/prompts";
+import { bgBlue, bold, cyan, dim, white } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { readSecretInput } from "@/commands/check.js";
+import { addGenerationOptions, applyGenerationFlags } from "@/commands/gen.js";
+import { formatOptions } from "@/commands/history.js";
+import { copySecret, parseClearAfter } from "@/lib/clipboard.js";
+import { DERIVE_VERSION, derivePassword, findDerivedSite, loadDerivedSites, normalizeSite, removeDerivedSite, saveDerivedSite, type DerivedSite } from "@/lib/derive.js";
+import { exitCodeFor, NotFoundError, UsageError, ValidationError } from "@/lib/errors.js";
+import { getOutputMode, printJson } from "@/lib/output.js";
+import { PasswordGenerator, PasswordOptionsSchema } from "@/lib/password-generator.js";
+import type { CommandOptions } from "@/types/command-options";
+
+interface DeriveOptions extends CommandOptions {
+  site?: string;
+  login?: string;
+  counter?: string;
+  remember?: boolean;
+}
+
+export const deriveCommand = addGenerationOptions(
+  new Command()
+    .name("derive")
+    .description("🧮 Compute a site password from a master password instead of storing it")
+    .argument("[site]", "site or URL the password is for")
+    .option("--site <site>", "site or URL the password is for")
+    .option("--login <login>", "username or email, so one site can have several passwords")
+    .option("--counter <number>", "bump to rotate the password without changing the master password (default 1)"),
+)
+  .option("--no-copy", "don't copy the password to the clipboard")
+  .option("--clear-after <seconds>", "clear the clipboard after this many seconds (defaults to config clipboardClearSeconds)")
+  .option("--remember", "store these parameters (never the master password) so next time only the site is needed")
+  .action(async (siteArgument: string | undefined, options: DeriveOptions, command: Command) => {
+    await runDeriveAction(async () => {
+      const siteInput = options.site ?? siteArgument;
+      if (!siteInput) {
+        throw new UsageError("Which site? Use: gmana derive <site> or --site <site>");
+      }
+
+      const clearAfter = options.clearAfter !== undefined ? parseClearAfter(options.clearAfter) : undefined;
+      const site = normalizeSite(siteInput);
+      const stored = await findDerivedSite(site, options.login);
+
+      // Config defaults differ between machines, so derivation starts from the built-in defaults
+      const params: DerivedSite = {
+        site,
+        login: options.login ?? stored?.login ?? "",
+        counter: options.counter !== undefined ? parseCounter(options.counter) : (stored?.counter ?? 1),
+        version: stored?.version ?? DERIVE_VERSION,
+        options: applyGenerationFlags(stored?.options ?? PasswordOptionsSchema.parse({}), options, command),
+      };
+
+      const masterPassword = await readSecretInput("Master password:");
+      const password = await derivePassword(masterPassword, params);
+      const entropyBits = PasswordGenerator.calculateEntropy(params.options);
+      const mode = getOutputMode();
+
+      if (mode === "quiet") {
+        process.stdout.write(password + "\n");
+      } else if (mode === "text") {
+        console.log("\n" + bgBlue(white(" Derived Password ")));
+        console.log(bold(white(password)));
+        console.log(dim(`${describeSite(params)} · ${entropyBits.toFixed(1)} bits`));
+      }
+
+      let copied = false;
+      let clipboardClearsAt: string | undefined;
+      if (options.copy) {
+        try {
+          const { clearsAt } = await copySecret(password, clearAfter);
+          copied = true;
+          clipboardClearsAt = clearsAt?.toISOString();
+          consola.success(clearsAt ? `📋 Copied to clipboard! It will be cleared at ${clearsAt.toLocaleTimeString()}` : "📋 Copied to clipboard!");
+        } catch {
+          consola.warn("Failed to copy to clipboard");
+        }
+      }
+
+      if (options.remember) {
+        await saveDerivedSite(params);
+        consola.success(`💾 Remembered the parameters for ${bold(site)}; next time run \`gmana derive ${site}\``);
+      } else if (stored && !sameParameters(stored, params)) {
+        consola.info("These parameters differ from the remembered ones; add --remember to keep them");
+      }
+
+      if (mode === "json") {
+        printJson({ password, site: params.site, login: params.login, counter: params.counter, version: params.version, entropyBits, copied, clipboardClearsAt, remembered: options.remember ?? false });
+      }
+    });
+  });
+
+deriveCommand.addCommand(
+  new Command()
+    .name("list")
+    .alias("ls")
+    .description("list sites with remembered parameters")
+    .action(async () => {
+      await runDeriveAction(async () => {
+        const sites = await loadDerivedSites();
+
+        if (sites.length === 0) {
+          consola.info("📭 No remembered sites yet. Add one with `gmana derive <site> --remember`");
+          return;
+        }
+
+        console.log(cyan("\n🧮 Remembered Sites:"));
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+        sites.forEach((site) => {
+          console.log(`${bold(describeSite(site).padEnd(40))} ${dim(formatOptions(site.options))}`);
+        });
+
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+      });
+    }),
+);
+
+deriveCommand.addCommand(
+  new Command()
+    .name("forget")
+    .alias("rm")
+    .description("forget the remembered parameters for a site")
+    .argument("<site>", "site or URL")
+    .option("--login <login>", "which login, when the site has several")
+    .option("-y, --yes", "don't ask for confirmation")
+    .action(async (site: string, options: { login?: string; yes?: boolean }) => {
+      await runDeriveAction(async () => {
+        const entry = await findDerivedSite(site, options.login);
+        if (!entry) {
+          throw new NotFoundError(`No remembered parameters for "${normalizeSite(site)}"`);
+        }
+
+        if (!options.yes) {
+          const confirmed = await confirm({
+            message: `Forget the parameters for ${describeSite(entry)}? You'll need to pass the same options again to get the same password.`,
+            initialValue: false,
+          });
+
+          if (isCancel(confirmed) || !confirmed) {
+            consola.info("Operation cancelled");
+            return;
+          }
+        }
+
+        await removeDerivedSite(entry.site, entry.login);
+        consola.success(`🗑️  Forgot ${bold(describeSite(entry))}`);
+      });
+    }),
+);
+
+function sameParameters(a: DerivedSite, b: DerivedSite): boolean {
+  // Parsing puts both option objects in schema key order before comparing
+  const options = (site: DerivedSite) => JSON.stringify(PasswordOptionsSchema.parse(site.options));
+  return a.login === b.login && a.counter === b.counter && a.version === b.version && options(a) === options(b);
+}
+
+function describeSite(site: Pick<DerivedSite, "site" | "login" | "counter">): string {
+  return [site.site, site.login || undefined, site.counter !== 1 ? `#${site.counter}` : undefined].filter(Boolean).join(" · ");
+}
+
+function parseCounter(value: string): number {
+  const counter = Number(value);
+  if (!Number.isInteger(counter) || counter < 1 || counter > 1_000_000) {
+    throw new ValidationError("Counter must be a whole number between 1 and 1000000");
+  }
+  return counter;
+}
+
+async function runDeriveAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    if (error && typeof error === "object" && "message" in error) {
+      consola.error("Derivation failed:", error.message);
+    } else {
+      consola.error("An unexpected error occurred");
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
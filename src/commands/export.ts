@@ -0,0 +1,96 @@
+import { isCancel, password } from "@clack/prompts";
+import { Command } from "commander";
+import consola from "consola";
+import fs from "fs-extra";
+
+import { ensureUnlocked } from "@/commands/unlock.js";
+import { AuthError, exitCodeFor, UsageError, ValidationError } from "@/lib/errors.js";
+import { EXPORT_FORMATS, HISTORY_FORMATS, serializeExport, type ExportFormat } from "@/lib/export-formats.js";
+import { loadHistory } from "@/lib/history.js";
+import { sealExport } from "@/lib/transfer.js";
+import { loadVault } from "@/lib/vault.js";
+
+export const exportCommand = new Command()
+  .name("export")
+  .description("📤 Export the vault (and history) for another password manager")
+  .option("-f, --format <format>", `output format (${EXPORT_FORMATS.join("|")})`, "gmana-json")
+  .option("-o, --output <file>", "write to a file instead of stdout")
+  .option("--include-history", "also export password history (always included in gmana-json)")
+  .option("--unencrypted", "write plaintext that other apps can read directly")
+  .action(async (options: { format: string; output?: string; includeHistory?: boolean; unencrypted?: boolean }) => {
+    try {
+      if (!EXPORT_FORMATS.includes(options.format as ExportFormat)) {
+        throw new ValidationError(`Unknown format "${options.format}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+      }
+      const format = options.format as ExportFormat;
+      if (options.includeHistory && !HISTORY_FORMATS.includes(format)) {
+        throw new UsageError(`${format} has no way to mark history entries, so they would import as vault entries. Use one of: ${HISTORY_FORMATS.join(", ")}`);
+      }
+
+      await ensureUnlocked();
+      const vault = await loadVault();
+      const history = format === "gmana-json" || options.includeHistory ? await loadHistory() : [];
+      let content = serializeExport(format, { vault, history });
+
+      if (options.unencrypted) {
+        consola.warn("Writing an unencrypted export: anyone who can read the file can read every password in it");
+      } else {
+        content = await sealExport(content, format, await readExportPassphrase(true));
+      }
+
+      if (options.output) {
+        await fs.writeFile(options.output, content, { mode: 0o600 });
+        await fs.chmod(options.output, 0o600);
+        consola.success(`📤 Exported ${vault.length} vault entries${history.length > 0 ? ` and ${history.length} history entries` : ""} to ${options.output}`);
+      } else {
+        process.stdout.write(content);
+      }
+
+      if (!options.unencrypted) {
+        consola.info("The export is encrypted. Import it with `gmana import`, or pass --unencrypted for other apps");
+      }
+    } catch (error) {
+      if (error && typeof error === "object" && "message" in error) {
+        consola.error("Export failed:", error.message);
+      } else {
+        consola.error("An unexpected error occurred");
+      }
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+/**
+ * Export files get their own passphrase rather than the master one, so they
+ * can be opened on another machine. Scripts can set GMANA_EXPORT_PASSPHRASE.
+ */
+export async function readExportPassphrase(isNew = false): Promise<string> {
+  if (process.env.GMANA_EXPORT_PASSPHRASE) {
+    return process.env.GMANA_EXPORT_PASSPHRASE;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new AuthError(isNew ? "Set GMANA_EXPORT_PASSPHRASE or pass --unencrypted" : "Set GMANA_EXPORT_PASSPHRASE to open an encrypted export");
+  }
+
+  const value = await password({
+    message: isNew ? "Choose a passphrase for the export file:" : "Export file passphrase:",
+    validate: (value) => {
+      if (isNew && value.length < 8) {
+        return "Passphrase must be at least 8 characters";
+      }
+    },
+  });
+
+  if (isCancel(value)) {
+    throw new Error("Operation cancelled");
+  }
+
+  if (isNew) {
+    const confirmation = await password({ message: "Confirm passphrase:" });
+    if (isCancel(confirmation) || confirmation !== value) {
+      throw new ValidationError("Passphrases do not match");
+    }
+  }
+
+  return value;
+}
@@ -1,36 +1,53 @@
-import { confirm, intro, multiselect, outro, spinner, text } from "@clack/prompts";
-import clipboardy from "clipboardy";
+import { confirm, intro, multiselect, outro, select, spinner, text } from "@clack/prompts";
 import { bgBlue, bold, cyan, dim, green, red, white, yellow } from "colorette";
 import { Command } from "commander";
 import consola from "consola";
+import fs from "fs-extra";
 
-import { loadConfig } from "@/lib/config";
+import { ensureUnlocked } from "@/commands/unlock.js";
+import { BATCH_FORMATS, formatBatch, type BatchFormat, type BatchRecord } from "@/lib/batch-output.js";
+import { CHARSET_PRESET_NAMES, describeCharset, resolveCharset } from "@/lib/charset.js";
+import { copySecret, parseClearAfter } from "@/lib/clipboard.js";
+import { getDefaultPasswordOptions, loadConfig } from "@/lib/config";
+import { exitCodeFor, UsageError, ValidationError } from "@/lib/errors.js";
 import { saveToHistory } from "@/lib/history.js";
-import { PasswordGenerator, type PasswordOptions } from "@/lib/password-generator.js";
+import { getOutputMode, isPlainOutput, printJson } from "@/lib/output.js";
+import { CAPITALIZE_MODES, PassphraseGenerator, type PassphraseOptions } from "@/lib/passphrase-generator.js";
+import { parsePasswordRules, resolvePolicyLength } from "@/lib/password-rules.js";
+import { parsePattern } from "@/lib/pattern.js";
+import { PasswordGenerator, PasswordOptionsSchema, type PasswordOptions } from "@/lib/password-generator.js";
+import { ATTACK_MODELS, estimateStrength, type AttackModel, type StrengthResult } from "@/lib/strength.js";
+import { addVaultEntry, duplicateLoginError, findLogin, loadVault, updateVaultEntry } from "@/lib/vault.js";
 import type { CommandOptions } from "@/types/command-options";
 
-export const genCommand = new Command()
-  .name("gen")
-  .alias("g")
-  .description("🎲 Generate a secure password")
-  .option("-l, --length <number>", "password length", "12")
-  .option("-i, --interactive", "interactive mode", false)
-  .option("--no-uppercase", "exclude uppercase letters")
-  .option("--no-lowercase", "exclude lowercase letters")
-  .option("--no-numbers", "exclude numbers")
-  .option("--no-symbols", "exclude symbols")
-  .option("--extra-symbols", "include extra symbols")
-  .option("--exclude-similar", "exclude similar characters (il1Lo0O)")
-  .option("--exclude-ambiguous", "exclude ambiguous characters")
+export const genCommand = addGenerationOptions(
+  new Command()
+    .name("gen")
+    .alias("g")
+    .description("🎲 Generate a secure password")
+    .option("-i, --interactive", "interactive mode", false)
+    .option("-P, --profile <name>", "start from a saved generation profile"),
+)
   .option("-c, --copy", "copy to clipboard", true)
+  .option("--clear-after <seconds>", "clear the clipboard after this many seconds (defaults to config clipboardClearSeconds)")
   .option("-s, --save", "save to history", false)
+  .option("--save-as <site>", "store the password in the vault under this site")
+  .option("--replace", "with --save-as, give an existing vault entry for the site the new password")
   .option("--show-strength", "show password strength", true)
-  .action(async (options) => {
+  .option("-n, --count <number>", "generate many passwords at once (batch mode)")
+  .option("-f, --format <format>", `batch output format (${BATCH_FORMATS.join("|")})`)
+  .option("-u, --unique", "never repeat a password within a batch", false)
+  .action(async (options, command: Command) => {
     try {
       if (options.interactive) {
+        if (getOutputMode() !== "text") {
+          throw new UsageError("--interactive can't be combined with --json or --quiet");
+        }
         await runInteractiveMode();
+      } else if (options.count !== undefined || options.format !== undefined) {
+        await runBatchMode(options, command);
       } else {
-        await runCommandMode(options);
+        await runCommandMode(options, command);
       }
     } catch (error) {
       if (error && typeof error === "object" && "message" in error) {
@@ -38,13 +55,165 @@ export const genCommand = new Command()
       } else {
         consola.error("An unexpected error occurred");
       }
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
+/**
+ * Registers the flags that describe how a password is generated. Shared by
+ * `gen` and `config profile add` so profiles accept exactly what gen does.
+ */
+export function addGenerationOptions(command: Command): Command {
+  return command
+    .option("-l, --length <number>", "password length")
+    .option("--uppercase", "include uppercase letters, even when a profile or config leaves them out")
+    .option("--no-uppercase", "exclude uppercase letters")
+    .option("--lowercase", "include lowercase letters, even when a profile or config leaves them out")
+    .option("--no-lowercase", "exclude lowercase letters")
+    .option("--numbers", "include numbers, even when a profile or config leaves them out")
+    .option("--no-numbers", "exclude numbers")
+    .option("--symbols", "include symbols, even when a profile or config leaves them out")
+    .option("--no-symbols", "exclude symbols")
+    .option("--extra-symbols", "include extra symbols")
+    .option("--exclude-similar", "exclude similar characters (il1Lo0O)")
+    .option("--exclude-ambiguous", "exclude ambiguous characters")
+    .option("--charset <chars>", `draw only from these characters, or a preset (${CHARSET_PRESET_NAMES.join("|")})`)
+    .option("--include <chars>", "add these characters to the charset")
+    .option("--exclude <chars>", "never use these characters")
+    .option("--min-upper <count>", "minimum number of uppercase letters")
+    .option("--min-lower <count>", "minimum number of lowercase letters")
+    .option("--min-numbers <count>", "minimum number of digits")
+    .option("--min-symbols <count>", "minimum number of symbols")
+    .option("--no-require-each-class", "don't force at least one character from each selected class")
+    .option("-w, --words <count>", "generate a diceware passphrase with this many words")
+    .option("--separator <string>", "passphrase word separator", "-")
+    .option("--capitalize <mode>", `passphrase capitalization (${CAPITALIZE_MODES.join("|")})`, "none")
+    .option("--with-number", "add a random digit to one passphrase word")
+    .option("--with-symbol", "add a random symbol to one passphrase word")
+    .option("--pronounceable", "build the password from consonant-vowel syllables, easy to read aloud")
+    .option("--no-pronounceable", "random characters even when config defaultPronounceable is on")
+    .option("-p, --pattern <template>", "build the password from a template, e.g. \"Cvcc-9999-[A-F]{4}\"")
+    .option("--rules <rules>", "satisfy a site's passwordrules string, e.g. \"minlength: 12; required: upper; required: digit\"")
+    .option("--rules-file <path>", "read the passwordrules string from a file");
+}
+
+/**
+ * Applies the generation flags the user actually typed on top of `base`.
+ * Flags left at their commander defaults never override a profile or config value.
+ */
+export function applyGenerationFlags(base: PasswordOptions, options: CommandOptions, command: Command): PasswordOptions {
+  const isSet = (name: keyof CommandOptions) => command.getOptionValueSource(name) === "cli";
+  const result: PasswordOptions = { ...base };
+
+  if (isSet("length")) {
+    const length = parseInt(options.length || "", 10);
+    if (isNaN(length) || length < 4 || length > 128) {
+      throw new ValidationError("Length must be between 4 and 128");
+    }
+    result.length = length;
+  }
+
+  if (isSet("uppercase")) result.includeUppercase = options.uppercase !== false;
+  if (isSet("lowercase")) result.includeLowercase = options.lowercase !== false;
+  if (isSet("numbers")) result.includeNumbers = options.numbers !== false;
+  if (isSet("symbols")) result.includeSymbols = options.symbols !== false;
+  if (isSet("extraSymbols")) result.includeExtraSymbols = options.extraSymbols ?? false;
+  if (isSet("excludeSimilar")) result.excludeSimilar = options.excludeSimilar ?? false;
+  if (isSet("excludeAmbiguous")) result.excludeAmbiguous = options.excludeAmbiguous ?? false;
+  if (isSet("minUpper")) result.minUppercase = parseMinimum(options.minUpper);
+  if (isSet("minLower")) result.minLowercase = parseMinimum(options.minLower);
+  if (isSet("minNumbers")) result.minNumbers = parseMinimum(options.minNumbers);
+  if (isSet("minSymbols")) result.minSymbols = parseMinimum(options.minSymbols);
+  if (isSet("requireEachClass")) result.requireEachClass = options.requireEachClass !== false;
+  if (isSet("charset")) result.customChars = resolveCharset(options.charset ?? "") || undefined;
+  if (isSet("include")) result.includeChars = options.include || undefined;
+  if (isSet("exclude")) result.excludeChars = options.exclude || undefined;
+
+  if ((["charset", "include", "exclude"] as const).some(isSet)) {
+    result.passphrase = undefined;
+    result.pattern = undefined;
+    result.rules = undefined;
+    result.pronounceable = false;
+  }
+
+  if (isSet("pronounceable")) {
+    result.pronounceable = options.pronounceable === true;
+    if (result.pronounceable) {
+      result.passphrase = undefined;
+      result.pattern = undefined;
+      result.rules = undefined;
+    }
+  }
+
+  if (isSet("words")) {
+    result.passphrase = parsePassphraseOptions(options);
+    result.pattern = undefined;
+    result.pronounceable = false;
+  } else if (result.passphrase && (["separator", "capitalize", "withNumber", "withSymbol"] as const).some(isSet)) {
+    result.passphrase = parsePassphraseOptions({ ...options, words: String(result.passphrase.words) });
+  }
+
+  if (isSet("pattern") && options.pattern) {
+    parsePattern(options.pattern);
+    result.pattern = options.pattern;
+    result.passphrase = undefined;
+    result.rules = undefined;
+    result.pronounceable = false;
+  }
+
+  if (isSet("rules") || isSet("rulesFile")) {
+    const rules = options.rulesFile ? readRulesFile(options.rulesFile) : (options.rules ?? "");
+    const { policy, diagnostics } = parsePasswordRules(rules);
+    const errors = diagnostics.filter(({ severity }) => severity === "error");
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid password rules:\n  - ${errors.map(({ message }) => message).join("\n  - ")}`);
+    }
+
+    diagnostics.forEach(({ message }) => consola.warn(message));
+
+    const length = resolvePolicyLength(policy, result.length);
+    if (length !== result.length) {
+      consola.warn(`Length adjusted from ${result.length} to ${length} to fit the rules`);
+      result.length = length;
+    }
+
+    result.rules = rules;
+    result.passphrase = undefined;
+    result.pattern = undefined;
+    result.pronounceable = false;
+  } else if (isSet("words")) {
+    result.rules = undefined;
+  }
+
+  // Surface impossible minimums before anything is generated
+  if (result.pronounceable) {
+    PasswordGenerator.calculateEntropy(result);
+  } else if (!result.passphrase && !result.pattern && !result.rules) {
+    PasswordGenerator.effectiveCharset(result);
+  }
+
+  return result;
+}
+
 async function runInteractiveMode() {
   intro(cyan("🔐 Password Generator"));
 
+  const config = await loadConfig();
+
+  const mode = await select({
+    message: "What would you like to generate?",
+    options: [
+      { value: "password", label: "🔣 Random password", hint: "characters" },
+      { value: "passphrase", label: "📖 Passphrase", hint: "memorable words" },
+    ],
+  });
+
+  if (mode === "passphrase") {
+    await runInteractivePassphrase();
+    return;
+  }
+
   const length = await text({
     message: "Password length?",
     placeholder: "12",
@@ -68,8 +237,9 @@ async function runInteractiveMode() {
         label: "Extra Symbols ([]{}|)",
         hint: "optional",
       },
+      { value: "pronounceable", label: "Pronounceable (Lomafiruke!42)", hint: "syllables, easy to read aloud" },
     ],
-    initialValues: ["uppercase", "lowercase", "numbers", "symbols"],
+    initialValues: ["uppercase", "lowercase", "numbers", "symbols", ...(config.defaultPronounceable ? ["pronounceable"] : [])],
   });
 
   const excludeOptions = await multiselect({
@@ -100,6 +270,8 @@ async function runInteractiveMode() {
     includeExtraSymbols: (charTypes as string[]).includes("extraSymbols"),
     excludeSimilar: (excludeOptions as string[]).includes("similar"),
     excludeAmbiguous: (excludeOptions as string[]).includes("ambiguous"),
+    requireEachClass: true,
+    pronounceable: (charTypes as string[]).includes("pronounceable"),
   };
 
   await generateAndDisplay(passwordOptions, {
@@ -111,57 +283,287 @@ async function runInteractiveMode() {
   outro(green("✨ Done!"));
 }
 
-async function runCommandMode(options: CommandOptions) {
-  const config = await loadConfig();
+async function runInteractivePassphrase() {
+  const words = await text({
+    message: "Number of words?",
+    placeholder: "6",
+    validate: (value) => {
+      const num = parseInt(value || "6");
+      if (isNaN(num) || num < 3 || num > 20) {
+        return "Word count must be between 3 and 20";
+      }
+    },
+  });
+
+  const separator = await text({
+    message: "Word separator?",
+    placeholder: "-",
+    defaultValue: "-",
+  });
+
+  const capitalize = await select({
+    message: "Capitalization?",
+    options: [
+      { value: "none", label: "none (correct-horse)" },
+      { value: "first", label: "first letter (Correct-Horse)" },
+      { value: "all", label: "all caps (CORRECT-HORSE)" },
+      { value: "random", label: "random words (correct-Horse)", hint: "+1 bit per word" },
+    ],
+  });
+
+  const extras = await multiselect({
+    message: "Add extra characters? (optional)",
+    options: [
+      { value: "number", label: "A digit (0-9)" },
+      { value: "symbol", label: "A symbol (!@#$)" },
+    ],
+    required: false,
+  });
+
+  const copyToClipboard = await confirm({
+    message: "Copy to clipboard?",
+    initialValue: true,
+  });
+
+  const saveToHistoryConfirm = await confirm({
+    message: "Save to history?",
+    initialValue: false,
+  });
 
   const passwordOptions: PasswordOptions = {
-    length: parseInt(options.length || "") || config.defaultLength || 12,
-    includeUppercase: options.uppercase !== false,
-    includeLowercase: options.lowercase !== false,
-    includeNumbers: options.numbers !== false,
-    includeSymbols: options.symbols !== false,
-    includeExtraSymbols: options.extraSymbols ?? false,
-    excludeSimilar: options.excludeSimilar ?? false,
-    excludeAmbiguous: options.excludeAmbiguous ?? false,
+    ...PasswordOptionsSchema.parse({}),
+    passphrase: {
+      words: parseInt(words as string) || 6,
+      separator: separator as string,
+      capitalize: capitalize as PassphraseOptions["capitalize"],
+      includeNumber: (extras as string[]).includes("number"),
+      includeSymbol: (extras as string[]).includes("symbol"),
+    },
   };
 
   await generateAndDisplay(passwordOptions, {
+    copy: copyToClipboard as boolean,
+    save: saveToHistoryConfirm as boolean,
+    showStrength: true,
+  });
+
+  outro(green("✨ Done!"));
+}
+
+async function runCommandMode(options: CommandOptions, command: Command) {
+  const passwordOptions = await buildPasswordOptions(options, command);
+  const actions = {
     copy: options.copy ?? false,
+    clearAfter: options.clearAfter !== undefined ? parseClearAfter(options.clearAfter) : undefined,
     save: options.save ?? false,
-    showStrength: options.showStrength ?? false,
-  });
+    saveAs: options.saveAs,
+    replace: options.replace ?? false,
+  };
+
+  await checkSaveAs(actions);
+  await generateAndDisplay(passwordOptions, { ...actions, showStrength: options.showStrength ?? false });
+}
+
+async function runBatchMode(options: CommandOptions, command: Command) {
+  const includeStrength = command.getOptionValueSource("showStrength") === "cli";
+  const count = parseInt(options.count || "1", 10);
+  if (isNaN(count) || count < 1 || count > 100_000) {
+    throw new ValidationError("Count must be between 1 and 100000");
+  }
+
+  const format = (options.format ?? (getOutputMode() === "json" ? "json" : "plain")) as BatchFormat;
+  if (!BATCH_FORMATS.includes(format)) {
+    throw new ValidationError(`Format must be one of: ${BATCH_FORMATS.join(", ")}`);
+  }
+  if (getOutputMode() === "json" && format !== "json" && format !== "ndjson") {
+    throw new UsageError(`--json can't be combined with --format ${format}`);
+  }
+
+  if (options.save || options.saveAs) {
+    throw new UsageError(`${options.save ? "--save" : "--save-as"} can't be combined with batch mode; pipe the output where you need it instead`);
+  }
+
+  const passwordOptions = await buildPasswordOptions(options, command);
+  const entropyBits = PasswordGenerator.calculateEntropy(passwordOptions);
+
+  const possibleOutputs = Math.round(2 ** entropyBits);
+  if (options.unique && possibleOutputs < count) {
+    throw new ValidationError(`These options only allow ${possibleOutputs} distinct passwords, fewer than --count ${count}`);
+  }
+
+  const records: BatchRecord[] = [];
+  const seen = new Set<string>();
+  let duplicates = 0;
+
+  while (records.length < count) {
+    const password = PasswordGenerator.generate(passwordOptions);
+
+    if (options.unique) {
+      if (seen.has(password)) {
+        if (++duplicates > count * 100) {
+          throw new ValidationError("Too many duplicates; the option space is too small for a unique batch of this size");
+        }
+        continue;
+      }
+      seen.add(password);
+    }
+
+    const record: BatchRecord = { password };
+    if (includeStrength) {
+      const { score, level, guessesLog10 } = estimateStrength(password);
+      record.entropyBits = entropyBits;
+      record.strength = { score, level, guessesLog10 };
+    }
+    records.push(record);
+  }
+
+  process.stdout.write(formatBatch(records, format));
+}
+
+function readRulesFile(path: string): string {
+  // Accept either the bare rules or a copied `passwordrules="..."` attribute
+  return fs
+    .readFileSync(path, "utf8")
+    .trim()
+    .replace(/^passwordrules\s*=\s*/i, "")
+    .replace(/^(["'])([\s\S]*)\1$/, "$2")
+    .trim();
+}
+
+/** Config defaults, then the selected profile, then the flags that were typed */
+export async function buildPasswordOptions(options: CommandOptions, command: Command): Promise<PasswordOptions> {
+  const config = await loadConfig();
+  const profileName = options.profile ?? config.defaultProfile;
+  let base = getDefaultPasswordOptions(config);
+
+  if (profileName) {
+    const profile = config.profiles[profileName];
+    if (!profile) {
+      throw new ValidationError(`Unknown profile "${profileName}". Run \`gmana config profile list\` to see saved profiles`);
+    }
+    base = profile;
+  }
+
+  return applyGenerationFlags(base, options, command);
 }
 
-async function generateAndDisplay(options: PasswordOptions, actions: { copy: boolean; save: boolean; showStrength: boolean }) {
-  const s = spinner();
-  s.start("Generating secure password...");
+function parseMinimum(value: string | undefined): number {
+  const count = parseInt(value || "", 10);
+  if (isNaN(count) || count < 0 || count > 128) {
+    throw new ValidationError(`Invalid minimum count "${value}": must be between 0 and 128`);
+  }
+  return count;
+}
+
+function parsePassphraseOptions(options: CommandOptions): PassphraseOptions {
+  const words = parseInt(options.words || "", 10);
+  if (isNaN(words) || words < 3 || words > 20) {
+    throw new ValidationError("Word count must be between 3 and 20");
+  }
+
+  const capitalize = options.capitalize ?? "none";
+  if (!(CAPITALIZE_MODES as readonly string[]).includes(capitalize)) {
+    throw new ValidationError(`Capitalization must be one of: ${CAPITALIZE_MODES.join(", ")}`);
+  }
+
+  return {
+    words,
+    separator: options.separator ?? "-",
+    capitalize: capitalize as PassphraseOptions["capitalize"],
+    includeNumber: options.withNumber ?? false,
+    includeSymbol: options.withSymbol ?? false,
+  };
+}
 
-  await new Promise((resolve) => setTimeout(resolve, 500)); // Dramatic effect
+async function generateAndDisplay(options: PasswordOptions, actions: DeliveryActions & { showStrength: boolean }) {
+  const mode = getOutputMode();
+  // The spinner's cursor codes would end up in pipes and CI logs
+  const s = isPlainOutput() ? undefined : spinner();
+  if (s) {
+    s.start(options.passphrase ? "Generating secure passphrase..." : "Generating secure password...");
+    await new Promise((resolve) => setTimeout(resolve, 500)); // Dramatic effect
+  }
 
   const password = PasswordGenerator.generate(options);
-  s.stop("Password generated!");
+  s?.stop(options.passphrase ? "Passphrase generated!" : "Password generated!");
+  const charset = options.passphrase || options.pattern || options.rules || options.pronounceable ? undefined : PasswordGenerator.effectiveCharset(options);
+
+  if (mode === "json") {
+    const record: BatchRecord = { password };
+    if (actions.showStrength) {
+      const { score, level, guessesLog10 } = estimateStrength(password);
+      record.entropyBits = options.passphrase ? PassphraseGenerator.calculateEntropy(options.passphrase).totalBits : PasswordGenerator.calculateEntropy(options);
+      record.strength = { score, level, guessesLog10 };
+    }
+    const delivery = await deliverSecret(password, actions, () => saveToHistory(password, options));
+    printJson({ ...record, ...(actions.showStrength && charset ? { charset: { size: charset.length, chars: charset.join("") } } : {}), ...delivery });
+    return;
+  }
+
+  if (mode === "quiet") {
+    process.stdout.write(password + "\n");
+    await deliverSecret(password, actions, () => saveToHistory(password, options));
+    return;
+  }
 
   // Display password
-  console.log("\n" + bgBlue(white(" Generated Password ")));
+  console.log("\n" + bgBlue(white(options.passphrase ? " Generated Passphrase " : " Generated Password ")));
   console.log(bold(white(password)));
 
   // Show strength analysis
   if (actions.showStrength) {
-    const strength = PasswordGenerator.calculateStrength(password);
-    const strengthColor = strength.score >= 75 ? green : strength.score >= 50 ? yellow : red;
+    printStrengthReport(estimateStrength(password));
 
-    console.log(`\n${bold("Strength:")} ${strengthColor(strength.level)} (${strength.score}/100)`);
+    if (options.passphrase) {
+      const entropy = PassphraseGenerator.calculateEntropy(options.passphrase);
+      console.log(`${bold("Entropy:")} ${entropy.bitsPerWord.toFixed(1)} bits/word × ${options.passphrase.words} words = ${entropy.totalBits.toFixed(1)} bits`);
+    } else {
+      console.log(`${bold("Entropy:")} ${PasswordGenerator.calculateEntropy(options).toFixed(1)} bits (generation space)`);
+    }
 
-    if (strength.feedback.length > 0) {
-      console.log(dim("Suggestions: " + strength.feedback.join(", ")));
+    if (charset) {
+      console.log(`${bold("Charset:")} ${charset.length} characters ${dim(describeCharset(charset))}`);
     }
   }
 
+  await deliverSecret(password, actions, () => saveToHistory(password, options));
+}
+
+export interface DeliveryActions {
+  copy: boolean;
+  clearAfter?: number;
+  save: boolean;
+  saveAs?: string;
+  /** With saveAs, update the site's existing entry instead of refusing the duplicate */
+  replace?: boolean;
+}
+
+/**
+ * What actually happened, for --json output. Clipboard and history failures
+ * are warnings; a failed vault save throws, since the secret would be lost.
+ */
+export interface DeliveryResult {
+  copied: boolean;
+  clipboardClearsAt?: string;
+  savedToHistory: boolean;
+  savedAs?: string;
+}
+
+/**
+ * What happens to a freshly generated secret after it is shown: clipboard,
+ * history and vault. Shared by `gen` and `token`; `saveHistory` records the
+ * secret with whatever options describe it.
+ */
+export async function deliverSecret(secret: string, actions: DeliveryActions, saveHistory: () => Promise<void>): Promise<DeliveryResult> {
+  const result: DeliveryResult = { copied: false, savedToHistory: false };
+
   // Copy to clipboard
   if (actions.copy) {
     try {
-      await clipboardy.write(password);
-      consola.success("📋 Copied to clipboard!");
+      const { clearsAt } = await copySecret(secret, actions.clearAfter);
+      result.copied = true;
+      result.clipboardClearsAt = clearsAt?.toISOString();
+      consola.success(clearsAt ? `📋 Copied to clipboard! It will be cleared at ${clearsAt.toLocaleTimeString()}` : "📋 Copied to clipboard!");
     } catch {
       consola.warn("Failed to copy to clipboard");
     }
@@ -170,10 +572,62 @@ async function generateAndDisplay(options: PasswordOptions, actions: { copy: boo
   // Save to history
   if (actions.save) {
     try {
-      await saveToHistory(password, options);
+      await ensureUnlocked();
+      await saveHistory();
+      result.savedToHistory = true;
       consola.success("💾 Saved to history!");
-    } catch {
-      consola.warn("Failed to save to history");
+    } catch (error) {
+      consola.warn("Failed to save to history:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Store in the vault
+  if (actions.saveAs) {
+    await ensureUnlocked();
+    const existing = actions.replace ? findLogin(await loadVault(), actions.saveAs, undefined) : undefined;
+
+    if (existing) {
+      await updateVaultEntry(existing.id, { password: secret });
+      consola.success(`🗄️  Replaced the password of ${bold(existing.site)} in the vault`);
+    } else {
+      await addVaultEntry({ site: actions.saveAs, password: secret });
+      consola.success(`🗄️  Saved to the vault as ${bold(actions.saveAs)}`);
     }
+    result.savedAs = actions.saveAs;
+  }
+
+  return result;
+}
+
+/**
+ * Refuses `--save-as` up front when the site already has an entry and
+ * `--replace` wasn't given, so no secret is generated only to be dropped.
+ */
+export async function checkSaveAs(actions: Pick<DeliveryActions, "saveAs" | "replace">): Promise<void> {
+  if (!actions.saveAs || actions.replace) return;
+
+  await ensureUnlocked();
+  const existing = findLogin(await loadVault(), actions.saveAs, undefined);
+  if (existing) {
+    throw duplicateLoginError(existing, "Pass --replace to give it the new secret, or choose another --save-as name");
+  }
+}
+
+export function printStrengthReport(strength: StrengthResult) {
+  const strengthColor = strength.score >= 3 ? green : strength.score >= 2 ? yellow : red;
+
+  console.log(`\n${bold("Strength:")} ${strengthColor(strength.level)} (${strength.score}/4)`);
+  console.log(`${bold("Guesses:")} 10^${strength.guessesLog10.toFixed(1)} (${strength.entropyBits.toFixed(1)} bits)`);
+  console.log(bold("Crack time:"));
+  for (const [model, { label }] of Object.entries(ATTACK_MODELS)) {
+    console.log(`  ${dim(label.padEnd(30))} ${strength.crackTimes[model as AttackModel].display}`);
+  }
+
+  if (strength.warning) {
+    console.log(yellow("Warning: " + strength.warning));
+  }
+
+  if (strength.feedback.length > 0) {
+    console.log(dim("Suggestions: " + strength.feedback.join(", ")));
   }
 }
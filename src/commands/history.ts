@@ -1,10 +1,15 @@
 import { confirm, intro, outro, select } from "@clack/prompts";
-import clipboardy from "clipboardy";
 import { bold, cyan, dim, green, yellow } from "colorette";
 import { Command } from "commander";
 import consola from "consola";
 
-import { clearHistory, loadHistory, type HistoryEntry } from "@/lib/history.js";
+import { ensureUnlocked } from "@/commands/unlock.js";
+import { copySecret, parseClearAfter } from "@/lib/clipboard.js";
+import { exitCodeFor, ValidationError } from "@/lib/errors.js";
+import { charsetSize, clearHistory, filterHistory, hasHistory, HISTORY_CLASSES, HISTORY_KINDS, historyKind, loadHistory, removeHistoryEntry, type HistoryClass, type HistoryEntry, type HistoryFilter, type HistoryKind } from "@/lib/history.js";
+import { getOutputMode, printJson } from "@/lib/output.js";
+import { splitGraphemes, uniqueGraphemes } from "@/lib/charset.js";
+import type { PasswordOptions } from "@/lib/password-generator.js";
 
 export const historyCommand = new Command()
   .name("history")
@@ -13,14 +18,26 @@ export const historyCommand = new Command()
   .option("-l, --list", "list password history")
   .option("-c, --clear", "clear password history")
   .option("--limit <number>", "limit number of entries to show", "10")
+  .option("--search <text>", "only entries whose password, pattern or rules contain this text")
+  .option("--since <date>", "only entries created on or after this date (ISO date or relative: 12h, 7d, 4w)")
+  .option("--until <date>", "only entries created on or before this date")
+  .option("--type <type>", `only entries of this kind (${HISTORY_KINDS.join("|")})`)
+  .option("--min-length <number>", "only passwords at least this long")
+  .option("--max-length <number>", "only passwords at most this long")
+  .option("--with <classes>", `only entries generated with these classes (comma-separated: ${HISTORY_CLASSES.join(",")})`)
+  .option("--without <classes>", "only entries generated without these classes")
+  .option("--clear-after <seconds>", "clear copied passwords from the clipboard after this many seconds (defaults to config clipboardClearSeconds)")
   .action(async (options) => {
     try {
+      const limit = parseLimit(options.limit);
+      const filter = parseHistoryFilter(options);
+
       if (options.clear) {
         await clearHistoryCommand();
       } else if (options.list) {
-        await listHistory(parseInt(options.limit));
+        await listHistory(limit, filter);
       } else {
-        await interactiveHistory();
+        await interactiveHistory(limit, filter, options.clearAfter !== undefined ? parseClearAfter(options.clearAfter) : undefined);
       }
     } catch (error) {
       if (error && typeof error === "object" && "message" in error) {
@@ -28,29 +45,70 @@ export const historyCommand = new Command()
       } else {
         consola.error("An unexpected error occurred");
       }
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
-async function listHistory(limit: number = 10) {
-  const history = await loadHistory();
+historyCommand.addCommand(
+  new Command()
+    .name("rm")
+    .alias("remove")
+    .description("delete a single history entry")
+    .argument("<id>", "entry id, or the start of it as shown by --list")
+    .action(async (id: string) => {
+      try {
+        await ensureUnlocked();
+        const removed = await removeHistoryEntry(id);
+        consola.success(`🗑️  Removed ${maskPassword(removed.password)} from ${new Date(removed.createdAt).toLocaleString()}`);
+      } catch (error) {
+        if (error && typeof error === "object" && "message" in error) {
+          consola.error("History operation failed:", error.message);
+        } else {
+          consola.error("An unexpected error occurred");
+        }
+        process.exit(exitCodeFor(error));
+      }
+    }),
+);
+
+async function listHistory(limit: number = 10, filter: HistoryFilter = {}) {
+  const history = filterHistory(await loadUnlockedHistory(), filter);
+  const entries = history.slice(0, limit);
+
+  // Scripts get the same masked passwords as the table, never the plaintext
+  if (getOutputMode() === "json") {
+    printJson(
+      entries.map((entry) => ({
+        id: entry.id,
+        createdAt: entry.createdAt,
+        kind: historyKind(entry),
+        length: splitGraphemes(entry.password).length,
+        maskedPassword: maskPassword(entry.password),
+        settings: formatOptions(entry.options),
+      })),
+    );
+    return;
+  }
+
+  if (getOutputMode() === "quiet") {
+    entries.forEach((entry) => console.log(`${entry.id}\t${entry.createdAt}\t${maskPassword(entry.password)}`));
+    return;
+  }
 
   if (history.length === 0) {
-    consola.info("📭 No password history found");
+    consola.info(isFiltered(filter) ? "📭 No history entries match the filters" : "📭 No password history found");
     return;
   }
 
-  console.log(cyan(`\n📚 Password History (${Math.min(limit, history.length)} of ${history.length}):`));
+  console.log(cyan(`\n📚 Password History (${Math.min(limit, history.length)} of ${history.length}${isFiltered(filter) ? " matching" : ""}):`));
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
-  const entries = history.slice(0, limit);
-
   entries.forEach((entry, index) => {
     const date = new Date(entry.createdAt).toLocaleString();
     const maskedPassword = maskPassword(entry.password);
     const options = formatOptions(entry.options);
 
-    console.log(`\n${bold(`${index + 1}.`)} ${dim(date)}`);
+    console.log(`\n${bold(`${index + 1}.`)} ${dim(date)} ${dim(`[${entry.id.slice(0, 8)}]`)}`);
     console.log(`   Password: ${yellow(maskedPassword)}`);
     console.log(`   Settings: ${dim(options)}`);
   });
@@ -71,14 +129,14 @@ async function clearHistoryCommand() {
   }
 }
 
-async function interactiveHistory() {
+async function interactiveHistory(limit: number, filter: HistoryFilter, clearAfter?: number) {
   intro(cyan("📚 Password History"));
 
-  const history = await loadHistory();
+  const history = filterHistory(await loadUnlockedHistory(), filter);
 
   if (history.length === 0) {
-    consola.info("📭 No password history found");
-    outro("Generate some passwords first!");
+    consola.info(isFiltered(filter) ? "📭 No history entries match the filters" : "📭 No password history found");
+    outro(isFiltered(filter) ? "Try different filters" : "Generate some passwords first!");
     return;
   }
 
@@ -93,10 +151,10 @@ async function interactiveHistory() {
 
   switch (action) {
     case "view":
-      await listHistory(20);
+      await listHistory(Math.max(limit, 20), filter);
       break;
     case "copy":
-      await copyFromHistory(history);
+      await copyFromHistory(history.slice(0, limit), clearAfter);
       break;
     case "clear":
       await clearHistoryCommand();
@@ -106,8 +164,8 @@ async function interactiveHistory() {
   outro(green("✨ Done!"));
 }
 
-async function copyFromHistory(history: HistoryEntry[]) {
-  const options = history.slice(0, 10).map((entry) => {
+async function copyFromHistory(history: HistoryEntry[], clearAfter?: number) {
+  const options = history.map((entry) => {
     const date = new Date(entry.createdAt).toLocaleDateString();
     const maskedPassword = maskPassword(entry.password);
     const settings = formatOptions(entry.options);
@@ -127,37 +185,156 @@ async function copyFromHistory(history: HistoryEntry[]) {
   const selectedEntry = history.find((entry) => entry.id === selectedId);
 
   if (selectedEntry) {
-    try {
-      await clipboardy.write(selectedEntry.password);
-      consola.success("📋 Password copied to clipboard!");
-    } catch {
-      consola.error("Failed to copy password to clipboard");
+    await copyPassword(selectedEntry.password, clearAfter);
+  }
+}
+
+export async function copyPassword(password: string, clearAfter?: number) {
+  try {
+    const { clearsAt } = await copySecret(password, clearAfter);
+    consola.success(clearsAt ? `📋 Password copied to clipboard! It will be cleared at ${clearsAt.toLocaleTimeString()}` : "📋 Password copied to clipboard!");
+  } catch {
+    consola.error("Failed to copy password to clipboard");
+  }
+}
+
+function parseHistoryFilter(options: Record<string, string | undefined>): HistoryFilter {
+  const filter: HistoryFilter = {
+    search: options.search,
+    since: options.since !== undefined ? parseDate(options.since, "--since") : undefined,
+    until: options.until !== undefined ? parseDate(options.until, "--until", true) : undefined,
+    minLength: options.minLength !== undefined ? parseLimit(options.minLength, "--min-length") : undefined,
+    maxLength: options.maxLength !== undefined ? parseLimit(options.maxLength, "--max-length") : undefined,
+    withClasses: options.with !== undefined ? parseClasses(options.with) : undefined,
+    withoutClasses: options.without !== undefined ? parseClasses(options.without) : undefined,
+  };
+
+  if (options.type !== undefined) {
+    if (!HISTORY_KINDS.includes(options.type as HistoryKind)) {
+      throw new ValidationError(`Unknown type "${options.type}". Use one of: ${HISTORY_KINDS.join(", ")}`);
+    }
+    filter.kind = options.type as HistoryKind;
+  }
+
+  return filter;
+}
+
+/**
+ * Accepts an ISO date/time or a relative age like `12h`, `7d` or `4w`.
+ * A bare `--until` date means the end of that day.
+ */
+function parseDate(value: string, flag: string, endOfDay = false): Date {
+  const relative = /^(\d+)\s*([hdw])$/i.exec(value.trim());
+  if (relative) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[relative[2].toLowerCase() as "h" | "d" | "w"];
+    return new Date(Date.now() - parseInt(relative[1], 10) * hours * 60 * 60 * 1000);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${flag} needs a date like 2024-05-01 or a relative age like 7d, got "${value}"`);
+  }
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+
+  return date;
+}
+
+function parseClasses(value: string): HistoryClass[] {
+  return value.split(",").map((name) => {
+    const trimmed = name.trim().toLowerCase();
+    if (!HISTORY_CLASSES.includes(trimmed as HistoryClass)) {
+      throw new ValidationError(`Unknown character class "${trimmed}". Use any of: ${HISTORY_CLASSES.join(", ")}`);
     }
+    return trimmed as HistoryClass;
+  });
+}
+
+function parseLimit(value: string, flag = "--limit"): number {
+  const number = parseInt(value, 10);
+  if (isNaN(number) || number < 0) {
+    throw new ValidationError(`${flag} must be a non-negative number`);
   }
+  return number;
+}
+
+function isFiltered(filter: HistoryFilter): boolean {
+  return Object.values(filter).some((value) => value !== undefined);
 }
 
-function maskPassword(password: string): string {
-  if (password.length <= 4) {
+async function loadUnlockedHistory(): Promise<HistoryEntry[]> {
+  if (!(await hasHistory())) {
+    return [];
+  }
+
+  await ensureUnlocked();
+  return loadHistory();
+}
+
+export function maskPassword(password: string): string {
+  // Count graphemes so an emoji is never cut in half
+  const chars = splitGraphemes(password);
+  if (chars.length <= 4) {
     return "••••";
   }
 
-  const start = password.substring(0, 2);
-  const end = password.substring(password.length - 2);
-  const middle = "•".repeat(password.length - 4);
+  const start = chars.slice(0, 2).join("");
+  const end = chars.slice(-2).join("");
+  const middle = "•".repeat(chars.length - 4);
 
   return `${start}${middle}${end}`;
 }
 
-function formatOptions(options: HistoryEntry["options"]): string {
+export function formatOptions(options: HistoryEntry["options"] & Partial<Pick<PasswordOptions, "excludeSimilar" | "excludeAmbiguous" | "customChars" | "includeChars" | "excludeChars">>): string {
   const parts = [];
 
+  if (options.token) {
+    return `Token:${options.token} L:${options.length}`;
+  }
+
+  if (options.passphrase) {
+    parts.push(`Words:${options.passphrase.words}`);
+    parts.push(`Sep:"${options.passphrase.separator}"`);
+    if (options.passphrase.capitalize !== "none") parts.push(`Caps:${options.passphrase.capitalize}`);
+    if (options.passphrase.includeNumber) parts.push("+0-9");
+    if (options.passphrase.includeSymbol) parts.push("+!@#");
+    return parts.join(" ");
+  }
+
+  if (options.pattern) {
+    return `Pattern:${options.pattern}`;
+  }
+
+  if (options.rules) {
+    return `L:${options.length} Rules:${options.rules}`;
+  }
+
   parts.push(`L:${options.length}`);
 
+  // History stores the resolved charset; profiles and derived sites keep the flags
+  if (options.charset !== undefined) {
+    return [...parts, `Charset:${charsetSize(options.charset)}`].join(" ");
+  }
+
+  if (options.customChars) {
+    parts.push(`Charset:${uniqueGraphemes(options.customChars).length}`);
+    if (options.includeChars) parts.push(`+"${options.includeChars}"`);
+    if (options.excludeChars) parts.push(`-"${options.excludeChars}"`);
+    return parts.join(" ");
+  }
+
+  if (options.pronounceable) parts.push("Pronounceable");
   if (options.includeUppercase) parts.push("A-Z");
   if (options.includeLowercase) parts.push("a-z");
   if (options.includeNumbers) parts.push("0-9");
   if (options.includeSymbols) parts.push("!@#");
   if (options.includeExtraSymbols) parts.push("[]{}");
+  if (options.excludeSimilar) parts.push("-similar");
+  if (options.excludeAmbiguous) parts.push("-ambiguous");
+  if (options.includeChars) parts.push(`+"${options.includeChars}"`);
+  if (options.excludeChars) parts.push(`-"${options.excludeChars}"`);
 
   return parts.join(" ");
 }
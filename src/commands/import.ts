@@ -0,0 +1,100 @@
+import { bold, cyan, dim, green, yellow } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+import fs from "fs-extra";
+import path from "node:path";
+
+import { readExportPassphrase } from "@/commands/export.js";
+import { ensureUnlocked } from "@/commands/unlock.js";
+import { exitCodeFor, UsageError, ValidationError } from "@/lib/errors.js";
+import { detectExportFormat, EXPORT_FORMATS, parseExport, type ExportFormat } from "@/lib/export-formats.js";
+import { loadHistory } from "@/lib/history.js";
+import { applyImport, openExport, planImport, readEncryptedExport, type ImportPlan } from "@/lib/transfer.js";
+import { loadVault } from "@/lib/vault.js";
+
+export const importCommand = new Command()
+  .name("import")
+  .description("📥 Import credentials exported from gmana or another password manager")
+  .argument("<file>", "export file to read")
+  .option("-f, --format <format>", `input format (${EXPORT_FORMATS.join("|")}); detected when omitted`)
+  .option("--dry-run", "report what would be imported without changing anything")
+  .option("--overwrite", "replace the password of entries that conflict with an existing one")
+  .action(async (file: string, options: { format?: string; dryRun?: boolean; overwrite?: boolean }) => {
+    try {
+      if (options.format !== undefined && !EXPORT_FORMATS.includes(options.format as ExportFormat)) {
+        throw new ValidationError(`Unknown format "${options.format}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+      }
+
+      let text = await fs.readFile(file, "utf8");
+      let format = options.format as ExportFormat | undefined;
+
+      const envelope = readEncryptedExport(text);
+      if (envelope) {
+        text = await openExport(envelope, await readExportPassphrase());
+        format ??= envelope.format;
+      }
+
+      format ??= detectExportFormat(text, path.basename(file));
+      if (!format) {
+        throw new UsageError("Couldn't tell the file's format. Pass --format");
+      }
+
+      const parsed = parseExport(format, text);
+
+      await ensureUnlocked();
+      const plan = planImport(parsed, await loadVault(), await loadHistory());
+      printPlan(plan, format, options.dryRun ?? false, options.overwrite ?? false);
+
+      if (options.dryRun) {
+        return;
+      }
+
+      await applyImport(plan, options.overwrite ?? false);
+
+      const updated = options.overwrite ? plan.conflicts.length : 0;
+      consola.success(`📥 Imported ${plan.added.length} vault entries${updated > 0 ? `, updated ${updated}` : ""}${plan.history.length > 0 ? ` and ${plan.history.length} history entries` : ""}`);
+    } catch (error) {
+      if (error && typeof error === "object" && "message" in error) {
+        consola.error("Import failed:", error.message);
+      } else {
+        consola.error("An unexpected error occurred");
+      }
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+function printPlan(plan: ImportPlan, format: ExportFormat, dryRun: boolean, overwrite: boolean) {
+  console.log(cyan(`\n📥 Import ${dryRun ? "preview" : "summary"} (${format}):`));
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  const rows: [string, number][] = [
+    ["New entries", plan.added.length],
+    ["Duplicates", plan.duplicates.length],
+    ["Conflicts", plan.conflicts.length],
+    ["Skipped", plan.skipped.length],
+  ];
+
+  if (plan.history.length > 0 || plan.historyDuplicates > 0) {
+    rows.push(["History entries", plan.history.length], ["History duplicates", plan.historyDuplicates]);
+  }
+
+  rows.forEach(([key, value]) => {
+    console.log(`${bold(key.padEnd(20))}: ${value}`);
+  });
+
+  if (dryRun) {
+    plan.added.forEach((entry) => console.log(green(`  + ${entry.site}${entry.username ? ` (${entry.username})` : ""}`)));
+  }
+
+  plan.conflicts.forEach(({ item }) => {
+    console.log(yellow(`  ! ${item.name}${item.username ? ` (${item.username})` : ""}: different password than the vault`));
+  });
+
+  plan.skipped.forEach((reason) => console.log(dim(`  - ${reason}`)));
+
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+
+  if (plan.conflicts.length > 0 && !overwrite) {
+    console.log(dim("Conflicting entries keep their current password; pass --overwrite to use the imported one."));
+  }
+}
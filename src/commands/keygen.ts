@@ -0,0 +1,167 @@
+import { isCancel, password } from "@clack/prompts";
+import { bgBlue, bold, cyan, dim, white } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+import fs from "fs-extra";
+import os from "node:os";
+import path from "node:path";
+
+import { readSecretInput } from "@/commands/check.js";
+import { addGenerationOptions, buildPasswordOptions, checkSaveAs, deliverSecret } from "@/commands/gen.js";
+import { parseClearAfter } from "@/lib/clipboard.js";
+import { exitCodeFor, StorageError, UsageError, ValidationError } from "@/lib/errors.js";
+import { formatAgeIdentityFile, generateAgeIdentity, generateSshKeyPair, SSH_KEY_TYPES, type SshKeyType } from "@/lib/keygen.js";
+import { PasswordGenerator } from "@/lib/password-generator.js";
+import type { CommandOptions } from "@/types/command-options";
+
+interface SshKeygenOptions extends CommandOptions {
+  type: string;
+  comment?: string;
+  file?: string;
+  force?: boolean;
+  passphraseFromGen?: boolean;
+  askPassphrase?: boolean;
+}
+
+const FILE_MODE = 0o600;
+const SSH_DIR_MODE = 0o700;
+
+export const keygenCommand = new Command().name("keygen").description("🔑 Generate SSH and age key pairs");
+
+keygenCommand.addCommand(
+  addGenerationOptions(
+    new Command()
+      .name("ssh")
+      .description("generate an OpenSSH key pair, optionally protected by a generated passphrase")
+      .option("-t, --type <type>", `key type (${SSH_KEY_TYPES.join("|")})`, "ed25519")
+      .option("-C, --comment <comment>", "comment stored in the key (defaults to user@host)")
+      .option("-f, --file <path>", "private key path; the public key goes next to it with .pub (defaults to ~/.ssh/id_<type>)")
+      .option("--force", "overwrite existing key files")
+      .option("--passphrase-from-gen", "encrypt the key with a passphrase generated from the usual gen options and flags")
+      .option("--ask-passphrase", "encrypt the key with a passphrase you type")
+      .option("-P, --profile <name>", "with --passphrase-from-gen, start from a saved generation profile"),
+  )
+    .option("--no-copy", "don't copy the generated passphrase to the clipboard")
+    .option("--clear-after <seconds>", "clear the clipboard after this many seconds (defaults to config clipboardClearSeconds)")
+    .option("--save-as <site>", "store the generated passphrase in the vault under this name")
+    .option("--replace", "with --save-as, give an existing vault entry of that name the new passphrase")
+    .action(async (options: SshKeygenOptions, command: Command) => {
+      await runKeygenAction(async () => {
+        if (!(SSH_KEY_TYPES as readonly string[]).includes(options.type)) {
+          throw new ValidationError(`Key type must be one of: ${SSH_KEY_TYPES.join(", ")}`);
+        }
+        if (options.passphraseFromGen && options.askPassphrase) {
+          throw new UsageError("Use either --passphrase-from-gen or --ask-passphrase, not both");
+        }
+
+        const type = options.type as SshKeyType;
+        const file = expandHome(options.file ?? path.join(os.homedir(), ".ssh", `id_${type}`));
+        const clearAfter = options.clearAfter !== undefined ? parseClearAfter(options.clearAfter) : undefined;
+        await ensureWritable([file, `${file}.pub`], options.force ?? false);
+        if (options.passphraseFromGen) {
+          await checkSaveAs(options);
+        }
+
+        let passphrase: string | undefined;
+        if (options.passphraseFromGen) {
+          passphrase = PasswordGenerator.generate(await buildPasswordOptions(options, command));
+        } else if (options.askPassphrase) {
+          passphrase = await readNewPassphrase();
+        }
+
+        const keyPair = generateSshKeyPair(type, options.comment ?? `${os.userInfo().username}@${os.hostname()}`, passphrase);
+
+        await fs.ensureDir(path.dirname(file), { mode: SSH_DIR_MODE });
+        await writePrivateFile(file, keyPair.privateKey);
+        await writePrivateFile(`${file}.pub`, keyPair.publicKey);
+
+        console.log(cyan("\n🔑 SSH Key Pair"));
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+        console.log(`${bold("Private key:")} ${file}${passphrase ? dim(" (encrypted)") : ""}`);
+        console.log(`${bold("Public key:")}  ${file}.pub`);
+        console.log(`${bold("Fingerprint:")} ${keyPair.fingerprint}`);
+        console.log(dim(keyPair.publicKey.trimEnd()));
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+        if (options.passphraseFromGen && passphrase) {
+          console.log("\n" + bgBlue(white(" Key Passphrase ")));
+          console.log(bold(white(passphrase)));
+          consola.warn("This passphrase is not stored anywhere unless you use --save-as; keep it somewhere safe");
+          await deliverSecret(passphrase, { copy: options.copy ?? true, clearAfter, save: false, saveAs: options.saveAs, replace: options.replace }, async () => {});
+        }
+      });
+    }),
+);
+
+keygenCommand.addCommand(
+  new Command()
+    .name("age")
+    .description("generate an age X25519 identity")
+    .option("-o, --output <path>", "identity file", "key.txt")
+    .option("--force", "overwrite an existing identity file")
+    .action(async (options: { output: string; force?: boolean }) => {
+      await runKeygenAction(async () => {
+        const file = expandHome(options.output);
+        await ensureWritable([file], options.force ?? false);
+
+        const identity = generateAgeIdentity();
+        await fs.ensureDir(path.dirname(file));
+        await writePrivateFile(file, formatAgeIdentityFile(identity));
+
+        console.log(cyan("\n🔑 age Identity"));
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+        console.log(`${bold("Identity:")}   ${file}`);
+        console.log(`${bold("Public key:")} ${identity.recipient}`);
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+      });
+    }),
+);
+
+async function ensureWritable(files: string[], force: boolean) {
+  if (force) return;
+
+  for (const file of files) {
+    if (await fs.pathExists(file)) {
+      throw new StorageError(`${file} already exists; pass --force to overwrite it`);
+    }
+  }
+}
+
+async function writePrivateFile(file: string, content: string) {
+  await fs.writeFile(file, content, { mode: FILE_MODE });
+  // The mode only applies to new files, so tighten overwritten ones too
+  await fs.chmod(file, FILE_MODE);
+}
+
+async function readNewPassphrase(): Promise<string> {
+  const value = await readSecretInput("Key passphrase:");
+  if (!value) {
+    throw new ValidationError("No passphrase given");
+  }
+
+  if (process.stdin.isTTY) {
+    const confirmation = await password({ message: "Confirm passphrase:" });
+    if (isCancel(confirmation) || confirmation !== value) {
+      throw new ValidationError("Passphrases do not match");
+    }
+  }
+
+  return value;
+}
+
+function expandHome(file: string): string {
+  return path.resolve(file.replace(/^~(?=$|[\\/])/, os.homedir()));
+}
+
+async function runKeygenAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    if (error && typeof error === "object" && "message" in error) {
+      consola.error("Key generation failed:", error.message);
+    } else {
+      consola.error("An unexpected error occurred");
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
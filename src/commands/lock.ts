@@ -0,0 +1,23 @@
+import { Command } from "commander";
+import consola from "consola";
+
+import { exitCodeFor } from "@/lib/errors.js";
+import { endSession, getSessionExpiry } from "@/lib/secure-store.js";
+
+export const lockCommand = new Command()
+  .name("lock")
+  .description("🔒 End the unlocked session")
+  .action(async () => {
+    try {
+      const wasUnlocked = (await getSessionExpiry()) !== null;
+      await endSession();
+      consola.success(wasUnlocked ? "🔒 Locked" : "🔒 Already locked");
+    } catch (error) {
+      if (error && typeof error === "object" && "message" in error) {
+        consola.error("Lock failed:", error.message);
+      } else {
+        consola.error("An unexpected error occurred");
+      }
+      process.exit(exitCodeFor(error));
+    }
+  });
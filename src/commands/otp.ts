@@ -0,0 +1,199 @@
+import { confirm, isCancel } from "@clack/prompts";
+import { bold, cyan, dim, yellow } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { readSecretInput } from "@/commands/check.js";
+import { ensureUnlocked } from "@/commands/unlock.js";
+import { copySecret, parseClearAfter } from "@/lib/clipboard.js";
+import { exitCodeFor, UsageError, ValidationError } from "@/lib/errors.js";
+import { generateHotp, generateTotp, normalizeSecret, OTP_ALGORITHMS, OtpParamsSchema, parseOtpauthUri, type OtpParams } from "@/lib/otp.js";
+import { addOtpAccount, findOtpAccount, loadOtpAccounts, removeOtpAccount, suggestOtpName, updateOtpAccount, type OtpAccount } from "@/lib/otp-store.js";
+
+interface OtpAddOptions {
+  issuer?: string;
+  digits?: string;
+  period?: string;
+  algorithm?: string;
+  hotp?: boolean;
+  counter?: string;
+}
+
+export const otpCommand = new Command().name("otp").description("🔢 Two-factor authentication codes (TOTP/HOTP)");
+
+otpCommand.addCommand(
+  new Command()
+    .name("add")
+    .description("add an account from a base32 secret or otpauth:// URI (read from a hidden prompt or stdin)")
+    .argument("[name]", "account name (defaults to the issuer from the URI)")
+    .option("--issuer <issuer>", "issuer shown in the account list")
+    .option("--digits <digits>", "code length, 6-8 (default 6)")
+    .option("--period <seconds>", "TOTP time step in seconds (default 30)")
+    .option("--algorithm <algorithm>", `HMAC algorithm (${OTP_ALGORITHMS.join("|")}, default SHA1)`)
+    .option("--hotp", "counter-based HOTP instead of TOTP")
+    .option("--counter <counter>", "initial HOTP counter (default 0)")
+    .action(async (name: string | undefined, options: OtpAddOptions) => {
+      await runOtpAction(async () => {
+        await ensureUnlocked();
+
+        const input = (await readSecretInput("Secret or otpauth:// URI:")).trim();
+        if (!input) {
+          throw new ValidationError("No secret given");
+        }
+
+        const params = applyOtpFlags(input.startsWith("otpauth://") ? parseOtpauthUri(input) : OtpParamsSchema.parse({ secret: normalizeSecret(input) }), options);
+        const accountName = name ?? suggestOtpName(params);
+
+        if (!accountName) {
+          throw new UsageError("Give the account a name: gmana otp add <name>");
+        }
+
+        const account = await addOtpAccount(accountName, params);
+        consola.success(`✅ Added ${bold(account.name)} (${describeAccount(account)})`);
+      });
+    }),
+);
+
+otpCommand.addCommand(
+  new Command()
+    .name("list")
+    .alias("ls")
+    .description("list accounts")
+    .option("--codes", "show the current TOTP code for each account")
+    .action(async (options: { codes?: boolean }) => {
+      await runOtpAction(async () => {
+        await ensureUnlocked();
+        const accounts = await loadOtpAccounts();
+
+        if (accounts.length === 0) {
+          consola.info("📭 No OTP accounts yet. Add one with `gmana otp add`");
+          return;
+        }
+
+        console.log(cyan("\n🔢 OTP Accounts:"));
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+        accounts.forEach((account) => {
+          const code = options.codes && account.type === "totp" ? ` ${bold(formatCode(generateTotp(account).code))}` : "";
+          console.log(`${bold(account.name.padEnd(20))} ${dim(describeAccount(account))}${code}`);
+        });
+
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+      });
+    }),
+);
+
+otpCommand.addCommand(
+  new Command()
+    .name("code")
+    .description("show and copy the current code")
+    .argument("<name>", "account name")
+    .option("--no-copy", "don't copy the code to the clipboard")
+    .option("--clear-after <seconds>", "clear the clipboard after this many seconds (defaults to config clipboardClearSeconds)")
+    .action(async (name: string, options: { copy: boolean; clearAfter?: string }) => {
+      await runOtpAction(async () => {
+        const clearAfter = options.clearAfter !== undefined ? parseClearAfter(options.clearAfter) : undefined;
+
+        await ensureUnlocked();
+        const account = await findOtpAccount(name);
+        let code: string;
+
+        if (account.type === "hotp") {
+          code = generateHotp(account, account.counter);
+          // Each HOTP code is single-use, so move on to the next counter straight away
+          await updateOtpAccount({ ...account, counter: account.counter + 1 });
+          console.log(`\n${bold(formatCode(code))} ${dim(`(counter ${account.counter})`)}`);
+        } else {
+          const totp = generateTotp(account);
+          code = totp.code;
+          const remaining = totp.remainingSeconds ?? account.period;
+          console.log(`\n${bold(formatCode(code))} ${(remaining <= 5 ? yellow : dim)(`(${remaining}s left)`)}`);
+        }
+
+        if (options.copy) {
+          try {
+            const { clearsAt } = await copySecret(code, clearAfter);
+            consola.success(clearsAt ? `📋 Copied to clipboard! It will be cleared at ${clearsAt.toLocaleTimeString()}` : "📋 Copied to clipboard!");
+          } catch {
+            consola.warn("Failed to copy to clipboard");
+          }
+        }
+      });
+    }),
+);
+
+otpCommand.addCommand(
+  new Command()
+    .name("rm")
+    .alias("remove")
+    .description("delete an account")
+    .argument("<name>", "account name")
+    .option("-y, --yes", "don't ask for confirmation")
+    .action(async (name: string, options: { yes?: boolean }) => {
+      await runOtpAction(async () => {
+        await ensureUnlocked();
+        const account = await findOtpAccount(name);
+
+        if (!options.yes) {
+          const confirmed = await confirm({
+            message: `Delete ${account.name}? You won't be able to generate its codes any more.`,
+            initialValue: false,
+          });
+
+          if (isCancel(confirmed) || !confirmed) {
+            consola.info("Operation cancelled");
+            return;
+          }
+        }
+
+        await removeOtpAccount(account.name);
+        consola.success(`🗑️  Removed ${bold(account.name)}`);
+      });
+    }),
+);
+
+function applyOtpFlags(params: OtpParams, options: OtpAddOptions): OtpParams {
+  const number = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+
+  const result = OtpParamsSchema.safeParse({
+    ...params,
+    type: options.hotp ? "hotp" : params.type,
+    issuer: options.issuer ?? params.issuer,
+    algorithm: options.algorithm?.toUpperCase() ?? params.algorithm,
+    digits: number(options.digits) ?? params.digits,
+    period: number(options.period) ?? params.period,
+    counter: number(options.counter) ?? params.counter,
+  });
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ValidationError(`Invalid ${issue.path.join(".")}: ${issue.message}`);
+  }
+
+  return result.data;
+}
+
+function describeAccount(account: OtpAccount): string {
+  const parts = [account.issuer, account.account].filter(Boolean).join(" · ");
+  const settings = account.type === "hotp" ? `HOTP ${account.algorithm} ${account.digits} digits` : `TOTP ${account.algorithm} ${account.digits} digits/${account.period}s`;
+  return parts ? `${parts}, ${settings}` : settings;
+}
+
+// 123456 → "123 456", 12345678 → "1234 5678"
+function formatCode(code: string): string {
+  const middle = Math.ceil(code.length / 2);
+  return `${code.slice(0, middle)} ${code.slice(middle)}`;
+}
+
+async function runOtpAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    if (error && typeof error === "object" && "message" in error) {
+      consola.error("OTP operation failed:", error.message);
+    } else {
+      consola.error("An unexpected error occurred");
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
@@ -0,0 +1,113 @@
+import { bold, cyan, dim, green } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { addGenerationOptions, applyGenerationFlags } from "@/commands/gen.js";
+import { formatOptions } from "@/commands/history.js";
+import { getDefaultPasswordOptions, loadConfig } from "@/lib/config.js";
+import { exitCodeFor, ValidationError } from "@/lib/errors.js";
+import { listProfiles, removeProfile, saveProfile, setDefaultProfile } from "@/lib/profiles.js";
+import type { CommandOptions } from "@/types/command-options";
+
+export const profileCommand = new Command()
+  .name("profile")
+  .alias("p")
+  .description("🗂️  Manage named generation profiles");
+
+profileCommand.addCommand(
+  addGenerationOptions(
+    new Command()
+      .name("add")
+      .description("create or replace a profile from gen-style flags")
+      .argument("<name>", "profile name")
+      .option("--from <profile>", "start from an existing profile instead of config defaults"),
+  ).action(async (name: string, options: CommandOptions & { from?: string }, command: Command) => {
+    await runProfileAction(async () => {
+      const config = await loadConfig();
+      const base = options.from ? config.profiles[options.from] : getDefaultPasswordOptions(config);
+
+      if (!base) {
+        throw new ValidationError(`Unknown profile "${options.from}"`);
+      }
+
+      const profileOptions = applyGenerationFlags(base, options, command);
+      await saveProfile(name, profileOptions);
+      consola.success(`✅ Saved profile ${bold(name)}: ${formatOptions(profileOptions)}`);
+    });
+  }),
+);
+
+profileCommand.addCommand(
+  new Command()
+    .name("list")
+    .alias("ls")
+    .description("list saved profiles")
+    .action(async () => {
+      await runProfileAction(async () => {
+        const profiles = await listProfiles();
+
+        if (profiles.length === 0) {
+          consola.info("📭 No profiles saved. Create one with `gmana config profile add <name>`");
+          return;
+        }
+
+        console.log(cyan("\n🗂️  Generation Profiles:"));
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+        profiles.forEach(({ name, options, isDefault }) => {
+          console.log(`${bold(name.padEnd(20))} ${dim(formatOptions(options))}${isDefault ? green(" (default)") : ""}`);
+        });
+
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+      });
+    }),
+);
+
+profileCommand.addCommand(
+  new Command()
+    .name("rm")
+    .alias("remove")
+    .description("delete a profile")
+    .argument("<name>", "profile name")
+    .action(async (name: string) => {
+      await runProfileAction(async () => {
+        await removeProfile(name);
+        consola.success(`🗑️  Removed profile ${bold(name)}`);
+      });
+    }),
+);
+
+profileCommand.addCommand(
+  new Command()
+    .name("default")
+    .description("use a profile whenever gen runs without --profile")
+    .argument("[name]", "profile name")
+    .option("--unset", "go back to plain config defaults")
+    .action(async (name: string | undefined, options: { unset?: boolean }) => {
+      await runProfileAction(async () => {
+        if (options.unset) {
+          await setDefaultProfile(undefined);
+          consola.success("✅ Default profile cleared");
+        } else if (name) {
+          await setDefaultProfile(name);
+          consola.success(`✅ Default profile set to ${bold(name)}`);
+        } else {
+          const config = await loadConfig();
+          consola.info(config.defaultProfile ? `Default profile: ${bold(config.defaultProfile)}` : "No default profile set");
+        }
+      });
+    }),
+);
+
+async function runProfileAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    if (error && typeof error === "object" && "message" in error) {
+      consola.error("Profile operation failed:", error.message);
+    } else {
+      consola.error("An unexpected error occurred");
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
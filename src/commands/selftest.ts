@@ -0,0 +1,101 @@
+import { spinner } from "@clack/prompts";
+import { bold, cyan, dim, green, red } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { EXIT_CODES, exitCodeFor, ValidationError } from "@/lib/errors.js";
+import { getOutputMode, isPlainOutput, printJson } from "@/lib/output.js";
+import { systemRandom } from "@/lib/random.js";
+import { createBiasedRandom, runSelfTest, SELFTEST_SCENARIOS, type ScenarioReport, type SelfTestResult } from "@/lib/selftest.js";
+
+export const selftestCommand = new Command()
+  .name("selftest")
+  .description("🧪 Statistically test the password generator for bias")
+  .option("-n, --samples <number>", "passwords generated per scenario", "5000")
+  .option("--alpha <p>", "fail a test when its p-value is below this", "0.001")
+  .option("--simulate-bias <rate>", "inject an RNG that returns its lowest value at this rate (0-1), to show the tests catch it")
+  .addHelpText(
+    "after",
+    `
+Each scenario runs a chi-square frequency test, a position × character test, a
+runs test and a serial correlation test. With ${SELFTEST_SCENARIOS.length} scenarios and α = 0.001 a healthy
+generator still fails about 2% of runs by chance; a real defect fails every run.`,
+  )
+  .action(async (options: { samples: string; alpha: string; simulateBias?: string }) => {
+    try {
+      const samples = Number(options.samples);
+      if (!Number.isInteger(samples) || samples < 100 || samples > 1_000_000) {
+        throw new ValidationError("--samples must be a whole number between 100 and 1000000");
+      }
+
+      const alpha = Number(options.alpha);
+      if (!(alpha > 0 && alpha < 1)) {
+        throw new ValidationError("--alpha must be between 0 and 1");
+      }
+
+      const bias = options.simulateBias !== undefined ? Number(options.simulateBias) : undefined;
+      if (bias !== undefined && !(bias > 0 && bias <= 1)) {
+        throw new ValidationError("--simulate-bias must be above 0 and at most 1");
+      }
+
+      const random = bias !== undefined ? createBiasedRandom(systemRandom, bias) : systemRandom;
+      const s = isPlainOutput() ? undefined : spinner();
+      s?.start("Running generator self-test...");
+
+      const reports: ScenarioReport[] = [];
+      for (const scenario of SELFTEST_SCENARIOS) {
+        s?.message(`Testing ${scenario.name} (${samples} passwords)...`);
+        // Let the spinner draw between scenarios; the tests themselves are synchronous
+        await new Promise((resolve) => setImmediate(resolve));
+        reports.push(...runSelfTest({ samples, alpha, random, scenarios: [scenario] }));
+      }
+
+      const passed = reports.every((report) => report.passed);
+      s?.stop(passed ? "Self-test complete" : "Self-test found bias");
+
+      if (getOutputMode() === "json") {
+        printJson({ samples, alpha, simulatedBias: bias, passed, scenarios: reports });
+      } else if (getOutputMode() === "quiet") {
+        reports.forEach((report) => report.results.forEach((result) => console.log([report.name, result.test, result.pValue, result.passed ? "pass" : "fail"].join("\t"))));
+      } else {
+        printReport(reports, samples, alpha, bias);
+      }
+
+      if (!passed) {
+        process.exit(EXIT_CODES.failure);
+      }
+    } catch (error) {
+      if (error && typeof error === "object" && "message" in error) {
+        consola.error("Self-test failed:", error.message);
+      } else {
+        consola.error("An unexpected error occurred");
+      }
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+function printReport(reports: ScenarioReport[], samples: number, alpha: number, bias?: number) {
+  console.log(cyan(`\n🧪 Generator Self-Test (${samples} passwords per scenario, α = ${alpha})`));
+  if (bias !== undefined) {
+    console.log(red(`Simulated bias: randomInt returns its lowest value ${bias * 100}% of the time`));
+  }
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  for (const report of reports) {
+    console.log(`\n${bold(report.name)} ${dim(`${report.description} (${report.charsetSize} characters)`)}`);
+    report.results.forEach((result) => console.log(`  ${result.test.padEnd(10)} ${formatStatistic(result).padEnd(24)} p = ${formatPValue(result.pValue).padEnd(10)} ${result.passed ? green("PASS") : red("FAIL")}`));
+  }
+
+  const results = reports.flatMap((report) => report.results);
+  const failures = results.filter((result) => !result.passed).length;
+  console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(failures === 0 ? green(`✅ All ${results.length} tests passed\n`) : red(`❌ ${failures} of ${results.length} tests failed\n`));
+}
+
+function formatStatistic(result: SelfTestResult): string {
+  return result.df !== undefined ? `χ² = ${result.statistic.toFixed(1)} (df ${result.df})` : `z = ${result.statistic.toFixed(2)}`;
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.0001 ? pValue.toExponential(2) : pValue.toFixed(4);
+}
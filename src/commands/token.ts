@@ -0,0 +1,132 @@
+import { bgBlue, bold, dim, green, red, white } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { checkSaveAs, deliverSecret } from "@/commands/gen.js";
+import { parseClearAfter } from "@/lib/clipboard.js";
+import { EXIT_CODES, exitCodeFor, UsageError, ValidationError } from "@/lib/errors.js";
+import { saveTokenToHistory } from "@/lib/history.js";
+import { getOutputMode, printJson } from "@/lib/output.js";
+import { DEFAULT_API_KEY_PREFIX, DEFAULT_TOKEN_BYTES, generateToken, MAX_TOKEN_BYTES, MIN_TOKEN_BYTES, TOKEN_FORMATS, verifyApiKey, type TokenFormat, type TokenOptions } from "@/lib/token.js";
+
+interface TokenCommandOptions {
+  bytes: string;
+  prefix: string;
+  count?: string;
+  copy: boolean;
+  clearAfter?: string;
+  save?: boolean;
+  saveAs?: string;
+  replace?: boolean;
+}
+
+export const tokenCommand = new Command()
+  .name("token")
+  .alias("t")
+  .description("🪙 Generate machine secrets: hex, base64, base32, UUIDs, ULIDs and API keys")
+  .argument("[format]", `token format (${TOKEN_FORMATS.join("|")})`, "hex")
+  .option("-b, --bytes <count>", `random bytes for hex, base64, base32 and API keys (${MIN_TOKEN_BYTES}-${MAX_TOKEN_BYTES})`, String(DEFAULT_TOKEN_BYTES))
+  .option("--prefix <prefix>", "API key prefix, e.g. \"sk\" for sk_…", DEFAULT_API_KEY_PREFIX)
+  .option("-n, --count <number>", "print this many tokens, one per line, without copying or saving")
+  .option("--no-copy", "don't copy the token to the clipboard")
+  .option("--clear-after <seconds>", "clear the clipboard after this many seconds (defaults to config clipboardClearSeconds)")
+  .option("-s, --save", "save to history", false)
+  .option("--save-as <site>", "store the token in the vault under this name")
+  .option("--replace", "with --save-as, give an existing vault entry of that name the new token")
+  .action(async (format: string, options: TokenCommandOptions) => {
+    await runTokenAction(async () => {
+      const tokenOptions = parseTokenOptions(format, options);
+
+      if (options.count !== undefined) {
+        const count = parseInt(options.count, 10);
+        if (isNaN(count) || count < 1 || count > 100_000) {
+          throw new ValidationError("Count must be between 1 and 100000");
+        }
+        if (options.save || options.saveAs) {
+          throw new UsageError(`${options.save ? "--save" : "--save-as"} can't be combined with --count; pipe the output where you need it instead`);
+        }
+
+        const tokens = Array.from({ length: count }, () => generateToken(tokenOptions).value);
+        if (getOutputMode() === "json") {
+          printJson(tokens.map((token) => ({ token })));
+        } else {
+          process.stdout.write(tokens.join("\n") + "\n");
+        }
+        return;
+      }
+
+      const clearAfter = options.clearAfter !== undefined ? parseClearAfter(options.clearAfter) : undefined;
+      const actions = { copy: options.copy, clearAfter, save: options.save ?? false, saveAs: options.saveAs, replace: options.replace };
+      await checkSaveAs(actions);
+      const token = generateToken(tokenOptions);
+      const mode = getOutputMode();
+
+      if (mode === "json") {
+        const delivery = await deliverSecret(token.value, actions, () => saveTokenToHistory(token.value, tokenOptions.format));
+        printJson({ token: token.value, format: tokenOptions.format, entropyBits: token.entropyBits, ...delivery });
+        return;
+      }
+
+      if (mode === "quiet") {
+        process.stdout.write(token.value + "\n");
+      } else {
+        console.log("\n" + bgBlue(white(" Generated Token ")));
+        console.log(bold(white(token.value)));
+        console.log(dim(`${tokenOptions.format} · ${token.value.length} characters · ${token.entropyBits} random bits`));
+      }
+
+      await deliverSecret(token.value, actions, () => saveTokenToHistory(token.value, tokenOptions.format));
+    });
+  });
+
+tokenCommand.addCommand(
+  new Command()
+    .name("verify")
+    .description("check the checksum of an API key made by `token api-key`")
+    .argument("<key>", "the API key")
+    .action(async (key: string) => {
+      await runTokenAction(async () => {
+        const result = verifyApiKey(key);
+
+        if (getOutputMode() === "json") {
+          printJson(result);
+        } else if (getOutputMode() === "quiet") {
+          console.log(result.valid ? "valid" : "invalid");
+        } else if (result.valid) {
+          console.log(green(`✅ Valid checksum (prefix ${bold(result.prefix ?? "")})`));
+        } else {
+          console.log(red(`❌ Invalid API key: ${result.reason}`));
+        }
+
+        if (!result.valid) {
+          process.exit(EXIT_CODES.failure);
+        }
+      });
+    }),
+);
+
+function parseTokenOptions(format: string, options: TokenCommandOptions): TokenOptions {
+  if (!(TOKEN_FORMATS as readonly string[]).includes(format)) {
+    throw new ValidationError(`Format must be one of: ${TOKEN_FORMATS.join(", ")}`);
+  }
+
+  const bytes = parseInt(options.bytes, 10);
+  if (isNaN(bytes) || bytes < MIN_TOKEN_BYTES || bytes > MAX_TOKEN_BYTES) {
+    throw new ValidationError(`Byte count must be between ${MIN_TOKEN_BYTES} and ${MAX_TOKEN_BYTES}`);
+  }
+
+  return { format: format as TokenFormat, bytes, prefix: options.prefix };
+}
+
+async function runTokenAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    if (error && typeof error === "object" && "message" in error) {
+      consola.error("Token generation failed:", error.message);
+    } else {
+      consola.error("An unexpected error occurred");
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
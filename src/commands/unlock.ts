@@ -0,0 +1,101 @@
+import { intro, isCancel, outro, password } from "@clack/prompts";
+import { cyan, green } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { loadConfig } from "@/lib/config.js";
+import { AuthError, exitCodeFor, ValidationError } from "@/lib/errors.js";
+import { migrateHistory } from "@/lib/history.js";
+import { getSessionKey, initializeKeystore, isKeystoreInitialized, startSession, verifyPassphrase } from "@/lib/secure-store.js";
+
+export const unlockCommand = new Command()
+  .name("unlock")
+  .description("🔓 Unlock encrypted storage for a short session")
+  .option("-t, --timeout <minutes>", "session length in minutes (defaults to config sessionTimeout)")
+  .action(async (options) => {
+    try {
+      intro(cyan("🔓 Unlock gmana"));
+
+      const config = await loadConfig();
+      const timeout = options.timeout ? parseInt(options.timeout, 10) : config.sessionTimeout;
+
+      if (isNaN(timeout) || timeout < 1 || timeout > 1440) {
+        throw new ValidationError("Timeout must be between 1 and 1440 minutes");
+      }
+
+      const expiresAt = await unlock(timeout);
+      outro(green(`✨ Unlocked until ${expiresAt.toLocaleTimeString()}`));
+    } catch (error) {
+      if (error && typeof error === "object" && "message" in error) {
+        consola.error("Unlock failed:", error.message);
+      } else {
+        consola.error("An unexpected error occurred");
+      }
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+/**
+ * Makes sure an unlocked session exists, prompting for the master passphrase
+ * (or creating one on first use) when it doesn't.
+ */
+export async function ensureUnlocked(): Promise<void> {
+  if (await getSessionKey()) {
+    return;
+  }
+
+  const config = await loadConfig();
+  await unlock(config.sessionTimeout);
+}
+
+async function unlock(timeoutMinutes: number): Promise<Date> {
+  const key = (await isKeystoreInitialized()) ? await verifyPassphrase(await readPassphrase("Master passphrase:")) : await createPassphrase();
+  return startSession(key, timeoutMinutes);
+}
+
+async function createPassphrase(): Promise<Buffer> {
+  consola.info("No master passphrase set yet. It encrypts everything gmana stores in ~/.gmana");
+
+  const passphrase = await readPassphrase("Choose a master passphrase:", true);
+  if (!process.env.GMANA_PASSPHRASE) {
+    const confirmation = await readPassphrase("Confirm master passphrase:");
+    if (confirmation !== passphrase) {
+      throw new ValidationError("Passphrases do not match");
+    }
+  }
+
+  const key = await initializeKeystore(passphrase);
+
+  if (await migrateHistory(key)) {
+    consola.success("🔐 Existing history encrypted with the new passphrase");
+  }
+
+  // stderr, so it never ends up in --json output
+  consola.warn("There is no way to recover the passphrase if you forget it.");
+  return key;
+}
+
+async function readPassphrase(message: string, isNew = false): Promise<string> {
+  if (process.env.GMANA_PASSPHRASE) {
+    return process.env.GMANA_PASSPHRASE;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new AuthError("gmana is locked. Run `gmana unlock` or set GMANA_PASSPHRASE");
+  }
+
+  const value = await password({
+    message,
+    validate: (value) => {
+      if (isNew && value.length < 8) {
+        return "Passphrase must be at least 8 characters";
+      }
+    },
+  });
+
+  if (isCancel(value)) {
+    throw new Error("Operation cancelled");
+  }
+
+  return value;
+}
@@ -0,0 +1,257 @@
+import { confirm, isCancel, text } from "@clack/prompts";
+import { bold, cyan, dim, yellow } from "colorette";
+import { Command } from "commander";
+import consola from "consola";
+
+import { readSecretInput } from "@/commands/check.js";
+import { copyPassword, maskPassword } from "@/commands/history.js";
+import { ensureUnlocked } from "@/commands/unlock.js";
+import { parseClearAfter } from "@/lib/clipboard.js";
+import { exitCodeFor, ValidationError } from "@/lib/errors.js";
+import { addVaultEntry, loadVault, parseTags, removeVaultEntry, resolveVaultEntry, searchVault, updateVaultEntry, type VaultEntry, type VaultEntryInput } from "@/lib/vault.js";
+
+interface EntryFieldOptions {
+  site?: string;
+  url?: string;
+  username?: string;
+  notes?: string;
+  tags?: string;
+}
+
+export const vaultCommand = new Command().name("vault").alias("v").description("🗄️  Store credentials with site, username, notes and tags");
+
+vaultCommand.addCommand(
+  new Command()
+    .name("add")
+    .description("add a credential (the password is read from a hidden prompt or stdin)")
+    .argument("<site>", "site name or domain")
+    .option("--url <url>", "login URL")
+    .option("-u, --username <username>", "username or email")
+    .option("--notes <notes>", "free-form notes")
+    .option("-t, --tags <tags>", "comma-separated tags")
+    .option("-f, --force", "add the entry even if the site already has one with this username")
+    .action(async (site: string, options: EntryFieldOptions & { force?: boolean }) => {
+      await runVaultAction(async () => {
+        await ensureUnlocked();
+
+        const password = await readSecretInput(`Password for ${site}:`);
+        if (!password) {
+          throw new ValidationError("No password given");
+        }
+
+        const entry = await addVaultEntry({ ...entryFields(options), site, password }, { force: options.force });
+        consola.success(`🗄️  Saved ${describeEntry(entry)}`);
+      });
+    }),
+);
+
+vaultCommand.addCommand(
+  new Command()
+    .name("get")
+    .description("show a credential and copy its password")
+    .argument("<site>", "site name or entry id")
+    .option("-u, --username <username>", "pick the login when a site has several")
+    .option("--show", "print the password instead of masking it")
+    .option("--no-copy", "don't copy the password to the clipboard")
+    .option("--clear-after <seconds>", "clear the clipboard after this many seconds (defaults to config clipboardClearSeconds)")
+    .action(async (site: string, options: { username?: string; show?: boolean; copy: boolean; clearAfter?: string }) => {
+      await runVaultAction(async () => {
+        const clearAfter = options.clearAfter !== undefined ? parseClearAfter(options.clearAfter) : undefined;
+
+        await ensureUnlocked();
+        const entry = resolveVaultEntry(await loadVault(), site, options.username);
+
+        printEntry(entry, options.show ?? false);
+
+        if (options.copy) {
+          await copyPassword(entry.password, clearAfter);
+        }
+      });
+    }),
+);
+
+vaultCommand.addCommand(
+  new Command()
+    .name("list")
+    .alias("ls")
+    .description("list stored credentials")
+    .option("-t, --tag <tag>", "only entries with this tag")
+    .action(async (options: { tag?: string }) => {
+      await runVaultAction(async () => {
+        await ensureUnlocked();
+        const vault = await loadVault();
+        const tag = options.tag?.toLowerCase();
+
+        printEntries(
+          tag ? vault.filter((entry) => entry.tags.includes(tag)) : vault,
+          tag ? `tagged "${tag}"` : undefined,
+        );
+      });
+    }),
+);
+
+vaultCommand.addCommand(
+  new Command()
+    .name("search")
+    .description("find credentials by site, URL, username, notes or tag")
+    .argument("<query>", "text to look for")
+    .action(async (query: string) => {
+      await runVaultAction(async () => {
+        await ensureUnlocked();
+        printEntries(searchVault(await loadVault(), query), `matching "${query}"`);
+      });
+    }),
+);
+
+vaultCommand.addCommand(
+  new Command()
+    .name("edit")
+    .description("change a credential's fields (prompts for each one when no flags are given)")
+    .argument("<site>", "site name or entry id")
+    .option("-u, --username <username>", "pick the login when a site has several")
+    .option("--site <site>", "new site name")
+    .option("--url <url>", "new login URL")
+    .option("--new-username <username>", "new username")
+    .option("--notes <notes>", "new notes")
+    .option("-t, --tags <tags>", "new comma-separated tags")
+    .option("-p, --password", "replace the password (read from a hidden prompt or stdin)")
+    .option("-f, --force", "rename the entry even if another one has the same site and username")
+    .action(async (site: string, options: Omit<EntryFieldOptions, "username"> & { username?: string; newUsername?: string; password?: boolean; force?: boolean }) => {
+      await runVaultAction(async () => {
+        await ensureUnlocked();
+        const entry = resolveVaultEntry(await loadVault(), site, options.username);
+
+        const flags = { site: options.site, url: options.url, username: options.newUsername, notes: options.notes, tags: options.tags };
+        const hasFlags = Object.values(flags).some((value) => value !== undefined) || options.password;
+        const changes: Partial<VaultEntryInput> = hasFlags ? entryFields(flags) : await promptForChanges(entry);
+
+        if (options.password) {
+          const password = await readSecretInput(`New password for ${entry.site}:`);
+          if (!password) {
+            throw new ValidationError("No password given");
+          }
+          changes.password = password;
+        }
+
+        const updated = await updateVaultEntry(entry.id, changes, { force: options.force });
+        consola.success(`✏️  Updated ${describeEntry(updated)}`);
+      });
+    }),
+);
+
+vaultCommand.addCommand(
+  new Command()
+    .name("rm")
+    .alias("remove")
+    .description("delete a credential")
+    .argument("<site>", "site name or entry id")
+    .option("-u, --username <username>", "pick the login when a site has several")
+    .option("-y, --yes", "don't ask for confirmation")
+    .action(async (site: string, options: { username?: string; yes?: boolean }) => {
+      await runVaultAction(async () => {
+        await ensureUnlocked();
+        const entry = resolveVaultEntry(await loadVault(), site, options.username);
+
+        if (!options.yes) {
+          const confirmed = await confirm({
+            message: `Delete ${describeEntry(entry)}?`,
+            initialValue: false,
+          });
+
+          if (isCancel(confirmed) || !confirmed) {
+            consola.info("Operation cancelled");
+            return;
+          }
+        }
+
+        await removeVaultEntry(entry.id);
+        consola.success(`🗑️  Removed ${describeEntry(entry)}`);
+      });
+    }),
+);
+
+function entryFields(options: EntryFieldOptions): Partial<VaultEntryInput> {
+  const fields: Partial<VaultEntryInput> = {};
+  if (options.site !== undefined) fields.site = options.site;
+  if (options.url !== undefined) fields.url = options.url || undefined;
+  if (options.username !== undefined) fields.username = options.username || undefined;
+  if (options.notes !== undefined) fields.notes = options.notes || undefined;
+  if (options.tags !== undefined) fields.tags = parseTags(options.tags);
+  return fields;
+}
+
+async function promptForChanges(entry: VaultEntry): Promise<Partial<VaultEntryInput>> {
+  const ask = async (message: string, initialValue: string | undefined) => {
+    const value = await text({ message, initialValue: initialValue ?? "" });
+    if (isCancel(value)) {
+      throw new Error("Cancelled");
+    }
+    return value.trim();
+  };
+
+  const site = await ask("Site:", entry.site);
+  const url = await ask("URL:", entry.url);
+  const username = await ask("Username:", entry.username);
+  const notes = await ask("Notes:", entry.notes);
+  const tags = await ask("Tags (comma-separated):", entry.tags.join(", "));
+
+  return entryFields({ site: site || entry.site, url, username, notes, tags });
+}
+
+function printEntry(entry: VaultEntry, showPassword: boolean) {
+  console.log(cyan(`\n🗄️  ${entry.site}`));
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  const rows = [
+    ["Username", entry.username ?? "—"],
+    ["Password", showPassword ? entry.password : yellow(maskPassword(entry.password))],
+    ["URL", entry.url ?? "—"],
+    ["Tags", entry.tags.length > 0 ? entry.tags.join(", ") : "—"],
+    ["Notes", entry.notes ?? "—"],
+    ["Created", new Date(entry.createdAt).toLocaleString()],
+    ["Updated", new Date(entry.updatedAt).toLocaleString()],
+    ["Id", dim(entry.id)],
+  ];
+
+  rows.forEach(([key, value]) => {
+    console.log(`${bold(key.padEnd(10))}: ${value}`);
+  });
+
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+}
+
+function printEntries(entries: VaultEntry[], description?: string) {
+  if (entries.length === 0) {
+    consola.info(description ? `📭 No vault entries ${description}` : "📭 The vault is empty. Add one with `gmana vault add <site>`");
+    return;
+  }
+
+  console.log(cyan(`\n🗄️  Vault (${entries.length} ${entries.length === 1 ? "entry" : "entries"}${description ? ` ${description}` : ""}):`));
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  [...entries]
+    .sort((a, b) => a.site.localeCompare(b.site))
+    .forEach((entry) => {
+      const tags = entry.tags.length > 0 ? dim(` [${entry.tags.join(", ")}]`) : "";
+      console.log(`${bold(entry.site.padEnd(24))} ${(entry.username ?? "—").padEnd(28)} ${dim(new Date(entry.updatedAt).toLocaleDateString())}${tags}`);
+    });
+
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+}
+
+function describeEntry(entry: VaultEntry): string {
+  return entry.username ? `${bold(entry.site)} (${entry.username})` : bold(entry.site);
+}
+
+async function runVaultAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    if (error && typeof error === "object" && "message" in error) {
+      consola.error("Vault operation failed:", error.message);
+    } else {
+      consola.error("An unexpected error occurred");
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
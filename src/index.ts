@@ -1,13 +1,30 @@
-import { Command } from "commander";
+import { Command, CommanderError, Option } from "commander";
 import consola from "consola";
 
 import { genCommand } from "@/commands/gen.js";
 // import { createRequire } from "node:module";
 // import path from "node:path";
 // import { fileURLToPath } from "node:url";
+import { setConfigFile } from "@/lib/config.js";
+import { EXIT_CODES, exitCodeFor } from "@/lib/errors.js";
+import { setOutputMode } from "@/lib/output.js";
 import pkg from "../package.json";
+import { auditCommand } from "./commands/audit";
+import { checkCommand } from "./commands/check";
+import { clipboardClearCommand } from "./commands/clipboard-clear";
+import { completeCommand, completionCommand } from "./commands/completion";
 import { configCommand } from "./commands/config";
+import { deriveCommand } from "./commands/derive";
+import { exportCommand } from "./commands/export";
 import { historyCommand } from "./commands/history";
+import { importCommand } from "./commands/import";
+import { keygenCommand } from "./commands/keygen";
+import { lockCommand } from "./commands/lock";
+import { otpCommand } from "./commands/otp";
+import { selftestCommand } from "./commands/selftest";
+import { tokenCommand } from "./commands/token";
+import { unlockCommand } from "./commands/unlock";
+import { vaultCommand } from "./commands/vault";
 
 // const require = createRequire(import.meta.url);
 // const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -17,23 +34,54 @@ async function main() {
     .name("gmana")
     .description("🔐 A modern password generator CLI")
     .version(pkg.version, "-v, --version", "display version number")
-    .helpOption("-h, --help", "display help for command");
+    .helpOption("-h, --help", "display help for command")
+    .option("--config <path>", "read and write configuration from this file (overrides all other sources)")
+    .addOption(new Option("--json", "print results as JSON (gen, config --show, history --list)").conflicts("quiet"))
+    .option("-q, --quiet", "print only the result, without decoration or progress messages")
+    .addHelpText(
+      "after",
+      `
+Exit codes:
+  ${EXIT_CODES.ok}  success
+  ${EXIT_CODES.failure}  unexpected error, or a check that failed
+  ${EXIT_CODES.usage}  usage error: unknown command or option, missing argument
+  ${EXIT_CODES.validation}  validation error: invalid option, argument or setting value
+  ${EXIT_CODES.storage}  storage error: a config, history or vault file can't be read or written
+  ${EXIT_CODES.auth}  authentication error: wrong passphrase, or locked without a terminal
+  ${EXIT_CODES.notFound}  not found: no vault entry, OTP account or remembered site by that name`,
+    )
+    .hook("preAction", (command) => {
+      const options = command.opts();
+      setConfigFile(options.config);
+      setOutputMode(options);
+      if (options.json || options.quiet) {
+        // Warnings and errors still go to stderr
+        consola.level = 1;
+      }
+    });
 
-  program.addCommand(genCommand).addCommand(configCommand).addCommand(historyCommand);
+  program.addCommand(genCommand).addCommand(tokenCommand).addCommand(keygenCommand).addCommand(configCommand).addCommand(historyCommand).addCommand(vaultCommand).addCommand(deriveCommand).addCommand(exportCommand).addCommand(importCommand).addCommand(checkCommand).addCommand(auditCommand).addCommand(selftestCommand).addCommand(otpCommand).addCommand(unlockCommand).addCommand(lockCommand).addCommand(completionCommand);
+  program.addCommand(clipboardClearCommand, { hidden: true }).addCommand(completeCommand, { hidden: true });
 
-  // Global error handling
-  program.exitOverride();
+  // Global error handling; subcommands added with addCommand don't inherit this
+  overrideExits(program);
 
   try {
     await program.parseAsync();
   } catch (error) {
-    if (error instanceof Error && error.name === "CommanderError") {
-      process.exit(0);
+    if (error instanceof CommanderError) {
+      // --help and --version exit 0; commander has already printed any usage error
+      process.exit(error.exitCode === 0 ? EXIT_CODES.ok : error.code === "commander.invalidArgument" ? EXIT_CODES.validation : EXIT_CODES.usage);
     }
 
     consola.error("Unexpected error:", error instanceof Error ? error.message : error);
-    process.exit(1);
+    process.exit(exitCodeFor(error));
   }
 }
 
+function overrideExits(command: Command) {
+  command.exitOverride();
+  command.commands.forEach(overrideExits);
+}
+
 main();
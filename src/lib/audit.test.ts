@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { auditPasswords, collectAuditItems } from "./audit.js";
+import { PasswordOptionsSchema } from "./password-generator.js";
+import type { VaultEntry } from "./vault.js";
+
+const entry = (site: string, username: string | undefined, password: string): VaultEntry => ({
+  id: crypto.randomUUID(),
+  site,
+  username,
+  password,
+  tags: [],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+const repeats = (vault: VaultEntry[]) =>
+  auditPasswords(collectAuditItems([], vault), { minScore: 0, rotationDays: 0, defaults: PasswordOptionsSchema.parse({}) })
+    .filter((finding) => finding.check === "reused" || finding.check === "duplicate")
+    .map(({ check, severity, label, message }) => ({ check, severity, label, message }));
+
+describe("auditPasswords repeats", () => {
+  it("reports one password on two sites as reuse", () => {
+    expect(repeats([entry("github.com", "alice", "Xk9#mP2$vLq7"), entry("gitlab.com", "alice", "Xk9#mP2$vLq7")])).toEqual([
+      { check: "reused", severity: "high", label: "github.com (alice)", message: "same password as gitlab.com (alice)" },
+      { check: "reused", severity: "high", label: "gitlab.com (alice)", message: "same password as github.com (alice)" },
+    ]);
+  });
+
+  it("reports one password for two logins on the same site as a duplicate", () => {
+    expect(repeats([entry("github.com", "alice", "Xk9#mP2$vLq7"), entry("GitHub.com", "bob", "Xk9#mP2$vLq7")])).toEqual([
+      { check: "duplicate", severity: "low", label: "github.com (alice)", message: "same password for 2 logins on github.com" },
+      { check: "duplicate", severity: "low", label: "GitHub.com (bob)", message: "same password for 2 logins on github.com" },
+    ]);
+  });
+
+  it("treats sites that differ only in case and whitespace as one site", () => {
+    expect(repeats([entry(" Example.com", undefined, "Xk9#mP2$vLq7"), entry("example.com", undefined, "Xk9#mP2$vLq7")]).map((finding) => [finding.check, finding.message])).toEqual([
+      ["duplicate", "stored 2 times in the vault"],
+      ["duplicate", "stored 2 times in the vault"],
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { historyKind, type HistoryEntry } from "./history.js";
+import type { PasswordOptions } from "./password-generator.js";
+import { estimateStrength } from "./strength.js";
+import { siteIdentity, type VaultEntry } from "./vault.js";
+
+/**
+ * Checks every password gmana stores, in history and the vault: reuse across
+ * sites, weak passwords, passwords past the rotation age and history entries
+ * generated with weaker settings than the current defaults.
+ */
+
+export const AUDIT_SEVERITIES = ["low", "medium", "high"] as const;
+
+export type AuditSeverity = (typeof AUDIT_SEVERITIES)[number];
+
+export const AUDIT_CHECKS = ["reused", "duplicate", "weak", "old", "below-defaults"] as const;
+
+export type AuditCheck = (typeof AUDIT_CHECKS)[number];
+
+export interface AuditItem {
+  source: "history" | "vault";
+  id: string;
+  /** Site and username for vault entries, the short id for history */
+  label: string;
+  /** The entry's site; only vault items have one */
+  site?: string;
+  password: string;
+  /** When the password was set: createdAt in history, updatedAt in the vault */
+  date: string;
+  /** Generation settings; only history records them */
+  options?: HistoryEntry["options"];
+}
+
+export interface AuditFinding {
+  check: AuditCheck;
+  severity: AuditSeverity;
+  source: AuditItem["source"];
+  id: string;
+  label: string;
+  message: string;
+}
+
+export interface AuditPolicy {
+  /** Lowest acceptable strength score (0-4) */
+  minScore: number;
+  /** Flag passwords set longer ago than this; 0 turns the check off */
+  rotationDays: number;
+  /** Current generation defaults that history entries are compared with */
+  defaults: PasswordOptions;
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function collectAuditItems(history: HistoryEntry[], vault: VaultEntry[]): AuditItem[] {
+  return [
+    ...vault.map((entry): AuditItem => ({
+      source: "vault",
+      id: entry.id,
+      label: entry.username ? `${entry.site} (${entry.username})` : entry.site,
+      site: entry.site,
+      password: entry.password,
+      date: entry.updatedAt,
+    })),
+    ...history.map((entry): AuditItem => ({
+      source: "history",
+      id: entry.id,
+      label: `history ${entry.id.slice(0, 8)}`,
+      password: entry.password,
+      date: entry.createdAt,
+      options: entry.options,
+    })),
+  ];
+}
+
+/** Findings sorted from most to least severe */
+export function auditPasswords(items: AuditItem[], policy: AuditPolicy): AuditFinding[] {
+  const findings = [...findRepeats(items), ...items.flatMap((item) => [...checkStrength(item, policy), ...checkAge(item, policy), ...checkSettings(item, policy)])];
+  return findings.sort((a, b) => compareSeverity(b.severity, a.severity) || AUDIT_CHECKS.indexOf(a.check) - AUDIT_CHECKS.indexOf(b.check));
+}
+
+export function compareSeverity(a: AuditSeverity, b: AuditSeverity): number {
+  return AUDIT_SEVERITIES.indexOf(a) - AUDIT_SEVERITIES.indexOf(b);
+}
+
+/**
+ * The same password on two vault sites is reuse. Other repeats, like two
+ * logins on one site or the same password saved twice to history, are only
+ * duplicates; a password that is
+ * both in history and the vault is how `gen --save-as` stores it, so it's fine.
+ */
+function findRepeats(items: AuditItem[]): AuditFinding[] {
+  const groups = new Map<string, AuditItem[]>();
+  for (const item of items) {
+    groups.set(item.password, [...(groups.get(item.password) ?? []), item]);
+  }
+
+  const findings: AuditFinding[] = [];
+  for (const group of groups.values()) {
+    const vaultItems = group.filter((item) => item.source === "vault");
+    const sites = new Set(vaultItems.map((item) => siteIdentity(item.site ?? item.label)));
+
+    if (sites.size > 1) {
+      for (const item of vaultItems) {
+        const others = [...new Set(vaultItems.filter((other) => other !== item).map((other) => other.label))];
+        findings.push(finding(item, "reused", "high", `same password as ${others.join(", ")}`));
+      }
+    } else if (vaultItems.length > 1) {
+      const logins = new Set(vaultItems.map((item) => item.label.trim().toLowerCase()));
+      const message = logins.size > 1 ? `same password for ${logins.size} logins on ${(vaultItems[0].site ?? vaultItems[0].label).trim()}` : `stored ${vaultItems.length} times in the vault`;
+      vaultItems.forEach((item) => findings.push(finding(item, "duplicate", "low", message)));
+    }
+
+    const historyItems = group.filter((item) => item.source === "history");
+    if (historyItems.length > 1) {
+      historyItems.forEach((item) => findings.push(finding(item, "duplicate", "low", `appears ${historyItems.length} times in history`)));
+    }
+  }
+
+  return findings;
+}
+
+const strengthCache = new Map<string, ReturnType<typeof estimateStrength>>();
+
+function checkStrength(item: AuditItem, policy: AuditPolicy): AuditFinding[] {
+  let strength = strengthCache.get(item.password);
+  if (!strength) {
+    strength = estimateStrength(item.password);
+    strengthCache.set(item.password, strength);
+  }
+
+  if (strength.score >= policy.minScore) {
+    return [];
+  }
+
+  return [finding(item, "weak", strength.score <= 1 ? "high" : "medium", `strength ${strength.level} (${strength.score}/4)${strength.warning ? `: ${strength.warning}` : ""}`)];
+}
+
+function checkAge(item: AuditItem, policy: AuditPolicy): AuditFinding[] {
+  if (policy.rotationDays <= 0) {
+    return [];
+  }
+
+  const days = Math.floor(((policy.now ?? new Date()).getTime() - new Date(item.date).getTime()) / DAY_MS);
+  return days > policy.rotationDays ? [finding(item, "old", "medium", `set ${days} days ago, over the ${policy.rotationDays}-day rotation age`)] : [];
+}
+
+/** Only random-character passwords have settings that compare with the defaults */
+function checkSettings(item: AuditItem, policy: AuditPolicy): AuditFinding[] {
+  const { options } = item;
+  if (!options) {
+    return [];
+  }
+
+  const kind = historyKind({ id: item.id, password: item.password, createdAt: item.date, options });
+  if (kind !== "password" && kind !== "pronounceable") {
+    return [];
+  }
+
+  const { defaults } = policy;
+  const shortfalls: string[] = [];
+
+  if (options.length < defaults.length) {
+    shortfalls.push(`length ${options.length} < ${defaults.length}`);
+  }
+
+  // A charset set with --charset, --include or --exclude was picked on purpose, so only its length is compared
+  if (kind === "password" && options.charset === undefined) {
+    const classes: [string, boolean, boolean][] = [
+      ["uppercase", options.includeUppercase, defaults.includeUppercase],
+      ["lowercase", options.includeLowercase, defaults.includeLowercase],
+      ["numbers", options.includeNumbers, defaults.includeNumbers],
+      ["symbols", options.includeSymbols, defaults.includeSymbols],
+    ];
+    classes.filter(([, used, expected]) => expected && !used).forEach(([name]) => shortfalls.push(`no ${name}`));
+  }
+
+  return shortfalls.length > 0 ? [finding(item, "below-defaults", "low", `generated with ${shortfalls.join(", ")}`)] : [];
+}
+
+function finding(item: AuditItem, check: AuditCheck, severity: AuditSeverity, message: string): AuditFinding {
+  return { check, severity, source: item.source, id: item.id, label: item.label, message };
+}
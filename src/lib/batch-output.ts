@@ -0,0 +1,46 @@
+import { formatCsvRow } from "./csv.js";
+
+export const BATCH_FORMATS = ["plain", "json", "csv", "ndjson"] as const;
+
+export type BatchFormat = (typeof BATCH_FORMATS)[number];
+
+export interface BatchRecord {
+  password: string;
+  entropyBits?: number;
+  strength?: {
+    score: number;
+    level: string;
+    guessesLog10: number;
+  };
+}
+
+export function formatBatch(records: BatchRecord[], format: BatchFormat): string {
+  switch (format) {
+    case "plain":
+      return records.map((record) => record.password).join("\n") + "\n";
+    case "json":
+      return JSON.stringify(records, null, 2) + "\n";
+    case "ndjson":
+      return records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+    case "csv":
+      return formatCsv(records);
+  }
+}
+
+function formatCsv(records: BatchRecord[]): string {
+  const hasEntropy = records.some((record) => record.entropyBits !== undefined);
+  const hasStrength = records.some((record) => record.strength !== undefined);
+
+  const header = ["password"];
+  if (hasEntropy) header.push("entropy_bits");
+  if (hasStrength) header.push("score", "level", "guesses_log10");
+
+  const rows = records.map((record) => {
+    const row = [record.password];
+    if (hasEntropy) row.push(record.entropyBits?.toFixed(2) ?? "");
+    if (hasStrength) row.push(String(record.strength?.score ?? ""), record.strength?.level ?? "", record.strength?.guessesLog10.toFixed(2) ?? "");
+    return formatCsvRow(row);
+  });
+
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,169 @@
+import crypto from "node:crypto";
+
+/**
+ * bcrypt_pbkdf as used by OpenSSH to encrypt private keys. OpenSSL no longer
+ * ships Blowfish by default, so the cipher is implemented here. Its initial
+ * state is the hex expansion of pi, which is computed once on first use
+ * instead of being pasted in as a 4 KiB table.
+ */
+
+const P_WORDS = 18;
+const S_WORDS = 256;
+const BCRYPT_WORDS = 8;
+const BCRYPT_HASH_SIZE = 32;
+const MAGIC = Buffer.from("OxychromaticBlowfishSwatDynamite", "ascii");
+
+interface BlowfishState {
+  p: Uint32Array;
+  s: Uint32Array[];
+}
+
+let initialState: Uint32Array | undefined;
+
+export function bcryptPbkdf(password: Buffer, salt: Buffer, keyLength: number, rounds: number): Buffer {
+  if (rounds < 1) throw new Error("bcrypt_pbkdf needs at least one round");
+  if (keyLength < 1 || keyLength > BCRYPT_HASH_SIZE * BCRYPT_HASH_SIZE) throw new Error("Invalid bcrypt_pbkdf key length");
+
+  const stride = Math.ceil(keyLength / BCRYPT_HASH_SIZE);
+  const amount = Math.ceil(keyLength / stride);
+  const key = Buffer.alloc(keyLength);
+  const hashedPassword = sha512(password);
+
+  for (let count = 1, remaining = keyLength; remaining > 0; count++) {
+    const countBytes = Buffer.alloc(4);
+    countBytes.writeUInt32BE(count);
+
+    let block = bcryptHash(hashedPassword, sha512(Buffer.concat([salt, countBytes])));
+    const output = Buffer.from(block);
+
+    for (let round = 1; round < rounds; round++) {
+      block = bcryptHash(hashedPassword, sha512(block));
+      for (let i = 0; i < output.length; i++) output[i] ^= block[i];
+    }
+
+    // Output bytes are spread across the key so every block contributes to all of it
+    let written = 0;
+    for (; written < Math.min(amount, remaining); written++) {
+      const index = written * stride + (count - 1);
+      if (index >= keyLength) break;
+      key[index] = output[written];
+    }
+    remaining -= written;
+  }
+
+  return key;
+}
+
+function bcryptHash(hashedPassword: Buffer, hashedSalt: Buffer): Buffer {
+  const state = createState();
+  expandState(state, hashedSalt, hashedPassword);
+
+  for (let i = 0; i < 64; i++) {
+    expandState(state, undefined, hashedSalt);
+    expandState(state, undefined, hashedPassword);
+  }
+
+  const data = new Uint32Array(BCRYPT_WORDS);
+  for (let i = 0; i < BCRYPT_WORDS; i++) data[i] = MAGIC.readUInt32BE(i * 4);
+
+  for (let i = 0; i < 64; i++) {
+    for (let block = 0; block < BCRYPT_WORDS; block += 2) {
+      [data[block], data[block + 1]] = encipher(state, data[block], data[block + 1]);
+    }
+  }
+
+  // bcrypt_pbkdf writes the words out little-endian, unlike the rest of Blowfish
+  const output = Buffer.alloc(BCRYPT_HASH_SIZE);
+  data.forEach((word, i) => output.writeUInt32LE(word, i * 4));
+  return output;
+}
+
+/** Blowfish key schedule; with `data` this is the salted "expandstate", without it "expand0state" */
+function expandState(state: BlowfishState, data: Buffer | undefined, key: Buffer) {
+  const keyStream = wordStream(key);
+  for (let i = 0; i < P_WORDS; i++) state.p[i] ^= keyStream();
+
+  const dataStream = data ? wordStream(data) : () => 0;
+  let left = 0;
+  let right = 0;
+
+  const next = (): [number, number] => {
+    left ^= dataStream();
+    right ^= dataStream();
+    [left, right] = encipher(state, left, right);
+    return [left, right];
+  };
+
+  for (let i = 0; i < P_WORDS; i += 2) [state.p[i], state.p[i + 1]] = next();
+  for (const box of state.s) {
+    for (let i = 0; i < S_WORDS; i += 2) [box[i], box[i + 1]] = next();
+  }
+}
+
+function encipher(state: BlowfishState, left: number, right: number): [number, number] {
+  const { p, s } = state;
+  const f = (x: number) => ((((s[0][x >>> 24] + s[1][(x >>> 16) & 0xff]) ^ s[2][(x >>> 8) & 0xff]) + s[3][x & 0xff]) >>> 0);
+
+  let l = (left ^ p[0]) >>> 0;
+  let r = right;
+  for (let i = 1; i <= 16; i += 2) {
+    r = (r ^ f(l) ^ p[i]) >>> 0;
+    l = (l ^ f(r) ^ p[i + 1]) >>> 0;
+  }
+
+  return [(r ^ p[17]) >>> 0, l];
+}
+
+/** Reads big-endian words from `bytes`, wrapping around at the end */
+function wordStream(bytes: Buffer): () => number {
+  let offset = 0;
+  return () => {
+    let word = 0;
+    for (let i = 0; i < 4; i++) {
+      word = ((word << 8) | bytes[offset]) >>> 0;
+      offset = (offset + 1) % bytes.length;
+    }
+    return word;
+  };
+}
+
+function createState(): BlowfishState {
+  initialState ??= piWords(P_WORDS + 4 * S_WORDS);
+  const words = Uint32Array.from(initialState);
+  return {
+    p: words.subarray(0, P_WORDS),
+    s: [0, 1, 2, 3].map((box) => words.subarray(P_WORDS + box * S_WORDS, P_WORDS + (box + 1) * S_WORDS)),
+  };
+}
+
+/** The first `count` 32-bit words of pi's fractional part, via Machin's formula */
+function piWords(count: number): Uint32Array {
+  const guardBits = 64n;
+  const bits = BigInt(count * 32) + guardBits;
+  const one = 1n << bits;
+
+  const arctanInverse = (x: bigint): bigint => {
+    const xSquared = x * x;
+    let power = one / x;
+    let sum = power;
+    for (let n = 3n, sign = -1n; power > 0n; n += 2n, sign = -sign) {
+      power /= xSquared;
+      sum += (sign * power) / n;
+    }
+    return sum;
+  };
+
+  const pi = 16n * arctanInverse(5n) - 4n * arctanInverse(239n);
+  let fraction = (pi - 3n * one) >> guardBits;
+
+  const words = new Uint32Array(count);
+  for (let i = count - 1; i >= 0; i--) {
+    words[i] = Number(fraction & 0xffffffffn);
+    fraction >>= 32n;
+  }
+  return words;
+}
+
+function sha512(data: Buffer): Buffer {
+  return crypto.createHash("sha512").update(data).digest();
+}
@@ -0,0 +1,34 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { lookupBreach, sha1Hex } from "./breach.js";
+import { EXIT_CODES, exitCodeFor, StorageError } from "./errors.js";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "gmana-breach-"));
+const sha1 = sha1Hex("password");
+fs.writeFileSync(path.join(directory, `${sha1.slice(0, 5)}.txt`), `0000000000000000000000000000000000A:1\r\n${sha1.slice(5)}:9545824\r\n`);
+
+afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const failure = async (promise: Promise<unknown>): Promise<unknown> => promise.then(() => undefined, (error: unknown) => error);
+
+describe("lookupBreach", () => {
+  it("counts a password found in a range directory", async () => {
+    expect(await lookupBreach(directory, "password")).toEqual({ sha1, count: 9545824 });
+  });
+
+  it("reports a missing corpus as a storage error", async () => {
+    const error = await failure(lookupBreach(path.join(directory, "missing"), "password"));
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(exitCodeFor(error)).toBe(EXIT_CODES.storage);
+  });
+
+  it("reports a range directory without the password's prefix as a storage error", async () => {
+    const error = await failure(lookupBreach(directory, "not in the corpus"));
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(exitCodeFor(error)).toBe(EXIT_CODES.storage);
+  });
+});
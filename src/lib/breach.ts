@@ -0,0 +1,129 @@
+import crypto from "node:crypto";
+import fs from "fs-extra";
+import path from "node:path";
+import { StorageError } from "./errors.js";
+
+/**
+ * Offline lookups against a downloaded Pwned Passwords corpus. Two layouts are supported:
+ *
+ * - a single file of `SHA1:COUNT` lines ordered by hash (the "ordered by hash" download),
+ *   searched with a binary search over byte offsets so the file is never loaded into memory;
+ * - a directory of range files named after the first five hash characters (`21BD1.txt`),
+ *   each holding `SUFFIX:COUNT` lines, as written by the official downloader.
+ */
+
+const HASH_PREFIX_LENGTH = 5;
+// Once the search window is this small, it's cheaper to read it and scan the lines
+const SCAN_WINDOW = 4096;
+// Longest line we expect: 40 hex chars, ':', a count and a line break
+const MAX_LINE_LENGTH = 64;
+
+export interface BreachResult {
+  sha1: string;
+  count: number;
+}
+
+export function sha1Hex(password: string): string {
+  return crypto.createHash("sha1").update(password, "utf8").digest("hex").toUpperCase();
+}
+
+export async function lookupBreach(corpusPath: string, password: string): Promise<BreachResult> {
+  const sha1 = sha1Hex(password);
+
+  if (!(await fs.pathExists(corpusPath))) {
+    throw new StorageError(`Breach corpus not found at ${corpusPath}`);
+  }
+
+  const stats = await fs.stat(corpusPath);
+  const count = stats.isDirectory() ? await searchRangeDirectory(corpusPath, sha1) : await searchSortedFile(corpusPath, sha1, stats.size);
+
+  return { sha1, count };
+}
+
+async function searchRangeDirectory(directory: string, sha1: string): Promise<number> {
+  const prefix = sha1.slice(0, HASH_PREFIX_LENGTH);
+  const suffix = sha1.slice(HASH_PREFIX_LENGTH);
+
+  for (const name of [`${prefix}.txt`, prefix, `${prefix.toLowerCase()}.txt`]) {
+    const file = path.join(directory, name);
+    if (await fs.pathExists(file)) {
+      const content = await fs.readFile(file, "utf8");
+      return findInLines(content.split("\n"), suffix) ?? 0;
+    }
+  }
+
+  throw new StorageError(`Breach corpus directory ${directory} has no range file for prefix ${prefix}`);
+}
+
+async function searchSortedFile(file: string, sha1: string, size: number): Promise<number> {
+  const fd = await fs.open(file, "r");
+
+  try {
+    // Invariant: if the hash is present, its line starts somewhere in [low, high)
+    let low = 0;
+    let high = size;
+
+    while (high - low > SCAN_WINDOW) {
+      const middle = Math.floor((low + high) / 2);
+      const line = await readLineAfter(fd, middle, size);
+
+      if (!line) {
+        high = middle;
+        continue;
+      }
+
+      const [hash, count] = parseLine(line.text);
+      if (hash === sha1) return count;
+
+      if (hash < sha1) {
+        low = line.end;
+      } else {
+        high = middle;
+      }
+    }
+
+    const length = Math.max(Math.min(high - low + MAX_LINE_LENGTH, size - low), 0);
+    const buffer = Buffer.alloc(length);
+    await fs.read(fd, buffer, 0, length, low);
+    return findInLines(buffer.toString("utf8").split("\n"), sha1) ?? 0;
+  } finally {
+    await fs.close(fd);
+  }
+}
+
+/**
+ * Reads the first complete line starting at or after `position`. Reading from one byte
+ * earlier means a line that begins exactly at `position` isn't skipped.
+ */
+async function readLineAfter(fd: number, position: number, size: number): Promise<{ text: string; end: number } | null> {
+  const start = Math.max(position - 1, 0);
+  const length = Math.min(MAX_LINE_LENGTH * 2, size - start);
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await fs.read(fd, buffer, 0, length, start);
+
+  let lineStart = 0;
+  if (start > 0) {
+    const newline = buffer.indexOf(0x0a);
+    if (newline === -1 || newline + 1 >= bytesRead) return null;
+    lineStart = newline + 1;
+  }
+
+  const newline = buffer.indexOf(0x0a, lineStart);
+  const lineEnd = newline === -1 || newline >= bytesRead ? bytesRead : newline;
+  const text = buffer.subarray(lineStart, lineEnd).toString("utf8");
+
+  return { text, end: start + lineEnd + 1 };
+}
+
+function parseLine(line: string): [hash: string, count: number] {
+  const [hash = "", count = "0"] = line.trim().split(":");
+  return [hash.toUpperCase(), parseInt(count, 10) || 0];
+}
+
+function findInLines(lines: string[], hash: string): number | undefined {
+  for (const line of lines) {
+    const [lineHash, count] = parseLine(line);
+    if (lineHash === hash) return count;
+  }
+  return undefined;
+}
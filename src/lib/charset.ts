@@ -0,0 +1,39 @@
+/**
+ * Custom charsets for random-character passwords. Characters are user-perceived
+ * graphemes rather than UTF-16 code units, so an emoji or an accented letter
+ * written with a combining mark is picked (and counted) as one character.
+ */
+
+export const CHARSET_PRESETS = {
+  hex: "0123456789abcdef",
+  alnum: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789",
+  // Bitcoin's alphabet: alphanumerics without 0, O, I and l
+  base58: "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz",
+  // RFC 3986 unreserved characters, safe anywhere in a URL
+  "url-safe": "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~",
+} as const;
+
+export type CharsetPreset = keyof typeof CHARSET_PRESETS;
+
+export const CHARSET_PRESET_NAMES = Object.keys(CHARSET_PRESETS) as CharsetPreset[];
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+export function splitGraphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
+
+/** Graphemes of `text` in order of first appearance, without repeats */
+export function uniqueGraphemes(text: string): string[] {
+  return [...new Set(splitGraphemes(text))];
+}
+
+/** A preset's characters, or `value` itself when it doesn't name a preset */
+export function resolveCharset(value: string): string {
+  return Object.hasOwn(CHARSET_PRESETS, value) ? CHARSET_PRESETS[value as CharsetPreset] : value;
+}
+
+/** Short display form: the characters themselves, cut off when there are many */
+export function describeCharset(chars: string[], maxShown = 64): string {
+  return chars.length > maxShown ? `${chars.slice(0, maxShown).join("")}…` : chars.join("");
+}
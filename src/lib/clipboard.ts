@@ -0,0 +1,92 @@
+import clipboardy from "clipboardy";
+import { spawn } from "node:child_process";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { loadConfig } from "./config.js";
+import { ValidationError } from "./errors.js";
+
+/**
+ * Copying secrets with an optional auto-clear. Clearing is done by a detached
+ * helper process (the hidden `__clipboard-clear` command) so it still happens
+ * after the CLI has exited. The helper only gets a hash of the secret and
+ * leaves the clipboard alone if the user has copied something else since.
+ */
+
+export const CLIPBOARD_CLEAR_COMMAND = "__clipboard-clear";
+
+const ClearRequestSchema = z.object({
+  delaySeconds: z.number().int().min(1),
+  secretHash: z.string(),
+  restore: z.string().optional(),
+});
+
+export type ClearRequest = z.infer<typeof ClearRequestSchema>;
+
+export interface CopyResult {
+  /** When the clipboard will be wiped, if auto-clear is on */
+  clearsAt?: Date;
+}
+
+/**
+ * Copies `secret` to the clipboard. `clearAfterSeconds` defaults to the
+ * config's `clipboardClearSeconds`; 0 leaves the secret on the clipboard.
+ */
+export async function copySecret(secret: string, clearAfterSeconds?: number): Promise<CopyResult> {
+  const config = await loadConfig();
+  const delaySeconds = clearAfterSeconds ?? config.clipboardClearSeconds;
+
+  let previous: string | undefined;
+  if (delaySeconds > 0 && config.clipboardRestore) {
+    previous = await clipboardy.read().catch(() => undefined);
+  }
+
+  await clipboardy.write(secret);
+
+  if (delaySeconds <= 0) {
+    return {};
+  }
+
+  scheduleClear({ delaySeconds, secretHash: hashSecret(secret), restore: previous && previous !== secret ? previous : undefined });
+  return { clearsAt: new Date(Date.now() + delaySeconds * 1000) };
+}
+
+export function parseClearAfter(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 0 || seconds > 3600) {
+    throw new ValidationError("--clear-after must be a whole number of seconds between 0 and 3600");
+  }
+  return seconds;
+}
+
+/**
+ * Runs inside the detached helper: waits, then wipes the clipboard if it still
+ * holds the secret. The request arrives on stdin so nothing sensitive shows up
+ * in the process list.
+ */
+export async function runClearRequest(input: string): Promise<void> {
+  const request = ClearRequestSchema.parse(JSON.parse(input));
+
+  await new Promise((resolve) => setTimeout(resolve, request.delaySeconds * 1000));
+
+  const current = await clipboardy.read().catch(() => undefined);
+  if (current === undefined || hashSecret(current) !== request.secretHash) {
+    return;
+  }
+
+  await clipboardy.write(request.restore ?? "");
+}
+
+function scheduleClear(request: ClearRequest) {
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1], CLIPBOARD_CLEAR_COMMAND], {
+    detached: true,
+    stdio: ["pipe", "ignore", "ignore"],
+    windowsHide: true,
+  });
+
+  child.stdin.end(JSON.stringify(request));
+  child.unref();
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret, "utf8").digest("hex");
+}
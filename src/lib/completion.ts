@@ -0,0 +1,456 @@
+import type { Command, Option } from "commander";
+
+/**
+ * Shell completion scripts generated from the commander tree, so new commands
+ * and flags are completed without touching this file. Values that live in
+ * config (setting names, profiles, remembered sites) aren't baked in; the
+ * scripts call `gmana __complete <source>` to list them at completion time.
+ */
+
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+export const COMPLETION_SOURCES = ["config-keys", "config-assignments", "profiles", "derive-sites"] as const;
+
+export type CompletionSource = (typeof COMPLETION_SOURCES)[number];
+
+interface CompletionValues {
+  /** Fixed values, e.g. from "(plain|json|csv)" in the help text */
+  choices?: string[];
+  source?: CompletionSource;
+}
+
+interface CompletionOption extends CompletionValues {
+  flags: string[];
+  description: string;
+  takesValue: boolean;
+}
+
+interface CompletionArgument extends CompletionValues {
+  name: string;
+}
+
+interface CompletionCommand {
+  /** Canonical names from the root, space separated; "" for the root */
+  path: string;
+  names: string[];
+  description: string;
+  options: CompletionOption[];
+  arguments: CompletionArgument[];
+  subcommands: CompletionCommand[];
+}
+
+/** Keyed by "<path> <flag or <argument>>", or just the flag to match it under any command */
+const DYNAMIC_VALUES: Record<string, CompletionSource> = {
+  "--profile": "profiles",
+  "config --set": "config-assignments",
+  "config get <key>": "config-keys",
+  "config set <key>": "config-keys",
+  "config unset <key>": "config-keys",
+  "config profile rm <name>": "profiles",
+  "config profile default <name>": "profiles",
+  "derive --site": "derive-sites",
+  "derive <site>": "derive-sites",
+  "derive forget <site>": "derive-sites",
+};
+
+const CHOICES_PATTERN = /\(([\w-]+(?:\|[\w-]+)+)\)/;
+
+export function generateCompletionScript(shell: CompletionShell, program: Command): string {
+  const root = describeCommand(program, "");
+  const commands = flattenCommands(root);
+  const name = program.name();
+
+  switch (shell) {
+    case "bash":
+      return generateBash(name, root, commands);
+    case "zsh":
+      return generateZsh(name, root, commands);
+    case "fish":
+      return generateFish(name, root, commands);
+  }
+}
+
+function describeCommand(command: Command, path: string): CompletionCommand {
+  const help = command.createHelp();
+
+  return {
+    path,
+    names: [command.name(), ...command.aliases()],
+    description: plainDescription(command.description()),
+    options: help.visibleOptions(command).map((option) => describeOption(option, path)),
+    arguments: command.registeredArguments.map((argument) => {
+      const name = `<${argument.name()}>`;
+      return { name, ...findValues(`${path} ${name}`, name, argument.argChoices, argument.description) };
+    }),
+    subcommands: help.visibleCommands(command).map((subcommand) => describeCommand(subcommand, [path, subcommand.name()].filter(Boolean).join(" "))),
+  };
+}
+
+function describeOption(option: Option, path: string): CompletionOption {
+  const flags = [option.short, option.long].filter((flag): flag is string => Boolean(flag));
+  const takesValue = option.required || option.optional;
+
+  return {
+    flags,
+    description: plainDescription(option.description),
+    takesValue,
+    ...(takesValue ? findValues(`${path} ${option.long ?? option.short}`, option.long ?? "", option.argChoices, option.description) : {}),
+  };
+}
+
+function findValues(key: string, name: string, argChoices: string[] | undefined, description: string): CompletionValues {
+  const source = DYNAMIC_VALUES[key.trim()] ?? DYNAMIC_VALUES[name];
+  if (source) return { source };
+
+  const choices = argChoices ?? CHOICES_PATTERN.exec(description)?.[1].split("|");
+  return choices ? { choices } : {};
+}
+
+function flattenCommands(command: CompletionCommand): CompletionCommand[] {
+  return [command, ...command.subcommands.flatMap(flattenCommands)];
+}
+
+/** Drops the leading emoji the top-level commands use, which only clutter a completion menu */
+function plainDescription(description: string): string {
+  return description.replace(/^[^\p{L}\p{N}`"'(]+/u, "").replace(/\s+/g, " ").trim();
+}
+
+/** Value flags under `command`, plus the root's, which commander accepts anywhere */
+function valueFlags(command: CompletionCommand, root: CompletionCommand): string[] {
+  const options = command === root ? root.options : [...command.options, ...root.options];
+  return [...new Set(options.filter((option) => option.takesValue).flatMap((option) => option.flags))];
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function fishQuote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/** `case` arms that map "<path>/<word>" to the subcommand path, aliases included */
+function subcommandArms(commands: CompletionCommand[], assign: (path: string) => string): string[] {
+  return commands.flatMap((command) =>
+    command.subcommands.map((subcommand) => {
+      const patterns = subcommand.names.map((name) => quote(`${command.path}/${name}`)).join("|");
+      return `    ${patterns}) ${assign(subcommand.path)} ;;`;
+    }),
+  );
+}
+
+/** `case` arms keyed by "<path> <flag>" and "<path>:<index>" with the command that lists the values */
+function valueArms(commands: CompletionCommand[], list: (values: CompletionValues) => string): string[] {
+  const arms: string[] = [];
+
+  for (const command of commands) {
+    for (const option of command.options) {
+      if (option.choices || option.source) {
+        arms.push(`    ${option.flags.map((flag) => quote(`${command.path} ${flag}`)).join("|")}) ${list(option)} ;;`);
+      }
+    }
+    command.arguments.forEach((argument, index) => {
+      if (argument.choices || argument.source) {
+        arms.push(`    ${quote(`${command.path}:${index}`)}) ${list(argument)} ;;`);
+      }
+    });
+  }
+
+  return arms;
+}
+
+function generateBash(name: string, root: CompletionCommand, commands: CompletionCommand[]): string {
+  const fn = `_${name.replace(/\W/g, "_")}`;
+  const list = (values: CompletionValues) => (values.source ? `REPLY="$(${name} __complete ${values.source} 2>/dev/null)"` : `REPLY=${quote(values.choices?.join(" ") ?? "")}`);
+
+  return `# bash completion for ${name}, generated by \`${name} completion bash\`
+#
+# Load it in the current shell with:
+#   source <(${name} completion bash)
+
+${fn}_subcommand() {
+  case "$1/$2" in
+${subcommandArms(commands, (path) => `REPLY=${quote(path)}`).join("\n")}
+    *) return 1 ;;
+  esac
+}
+
+${fn}_value_flags() {
+  case "$1" in
+${commands.map((command) => `    ${quote(command.path)}) REPLY=${quote(valueFlags(command, root).join(" "))} ;;`).join("\n")}
+    *) REPLY="" ;;
+  esac
+}
+
+${fn}_flags() {
+  case "$1" in
+${commands.map((command) => `    ${quote(command.path)}) REPLY=${quote(command.options.flatMap((option) => option.flags).join(" "))} ;;`).join("\n")}
+    *) REPLY="" ;;
+  esac
+}
+
+${fn}_subcommands() {
+  case "$1" in
+${commands.map((command) => `    ${quote(command.path)}) REPLY=${quote(command.subcommands.flatMap((subcommand) => subcommand.names).join(" "))} ;;`).join("\n")}
+    *) REPLY="" ;;
+  esac
+}
+
+${fn}_values() {
+  case "$1" in
+${valueArms(commands, list).join("\n")}
+    *) return 1 ;;
+  esac
+}
+
+${fn}() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" cmdpath="" flag="" word REPLY i positional=0 pending=0
+  COMPREPLY=()
+
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    word="\${COMP_WORDS[i]}"
+    # COMP_WORDBREAKS splits --flag=value into "--flag" "=" "value"
+    if [[ $word == "=" ]]; then
+      continue
+    elif ((pending)); then
+      pending=0
+      continue
+    fi
+
+    case "$word" in
+      -*)
+        ${fn}_value_flags "$cmdpath"
+        if [[ " $REPLY " == *" $word "* ]]; then
+          pending=1
+          flag="$word"
+        fi
+        ;;
+      *)
+        if ${fn}_subcommand "$cmdpath" "$word"; then
+          cmdpath="$REPLY"
+          positional=0
+        else
+          positional=$((positional + 1))
+        fi
+        ;;
+    esac
+  done
+  [[ $cur == "=" ]] && cur=""
+
+  if ((pending)); then
+    # No known values means a path or free text; -o default falls back to files
+    ${fn}_values "$cmdpath $flag" || return 0
+  elif [[ $cur == -* ]]; then
+    ${fn}_flags "$cmdpath"
+  else
+    ${fn}_subcommands "$cmdpath"
+    local subcommands="$REPLY"
+    REPLY=""
+    ${fn}_values "$cmdpath:$positional"
+    REPLY="$subcommands $REPLY"
+  fi
+
+  COMPREPLY=($(compgen -W "$REPLY" -- "$cur"))
+  # Setting names are completed as "key=" so the value can follow directly
+  if [[ \${#COMPREPLY[@]} -eq 1 && \${COMPREPLY[0]} == *= ]]; then
+    compopt -o nospace 2>/dev/null
+  fi
+}
+
+complete -o default -F ${fn} ${name}
+`;
+}
+
+function generateZsh(name: string, root: CompletionCommand, commands: CompletionCommand[]): string {
+  const fn = `_${name.replace(/\W/g, "_")}`;
+  const described = (entries: Array<[string, string]>) => entries.map(([value, description]) => quote(`${value.replace(/:/g, "\\:")}:${description}`)).join(" ");
+  const list = (values: CompletionValues) => (values.source ? `reply=(\${(f)"$(${name} __complete ${values.source} 2>/dev/null)"})` : `reply=(${(values.choices ?? []).map(quote).join(" ")})`);
+
+  return `#compdef ${name}
+# zsh completion for ${name}, generated by \`${name} completion zsh\`
+#
+# Load it in the current shell with:
+#   source <(${name} completion zsh)
+# or save it as ${fn} in a directory on $fpath.
+
+${fn}_subcommand() {
+  case "$1/$2" in
+${subcommandArms(commands, (path) => `REPLY=${quote(path)}`).join("\n")}
+    *) return 1 ;;
+  esac
+}
+
+${fn}_value_flags() {
+  case "$1" in
+${commands.map((command) => `    ${quote(command.path)}) REPLY=${quote(valueFlags(command, root).join(" "))} ;;`).join("\n")}
+    *) REPLY="" ;;
+  esac
+}
+
+${fn}_flags() {
+  case "$1" in
+${commands.map((command) => `    ${quote(command.path)}) reply=(${described(command.options.flatMap((option) => option.flags.map((flag): [string, string] => [flag, option.description])))}) ;;`).join("\n")}
+    *) reply=() ;;
+  esac
+}
+
+${fn}_subcommands() {
+  case "$1" in
+${commands.map((command) => `    ${quote(command.path)}) reply=(${described(command.subcommands.flatMap((subcommand) => subcommand.names.map((alias): [string, string] => [alias, subcommand.description])))}) ;;`).join("\n")}
+    *) reply=() ;;
+  esac
+}
+
+${fn}_values() {
+  case "$1" in
+${valueArms(commands, list).join("\n")}
+    *) return 1 ;;
+  esac
+}
+
+${fn}_add_values() {
+  # Setting names are completed as "key=" so the value can follow directly
+  if [[ \${reply[1]} == *= ]]; then
+    compadd -S '' -a reply
+  else
+    compadd -a reply
+  fi
+}
+
+${fn}() {
+  local cmdpath="" flag="" word REPLY i positional=0 pending=0
+  local -a reply subcommands
+
+  for ((i = 2; i < CURRENT; i++)); do
+    word="\${words[i]}"
+    if ((pending)); then
+      pending=0
+      continue
+    fi
+
+    case "$word" in
+      --*=*) ;;
+      -*)
+        ${fn}_value_flags "$cmdpath"
+        if [[ " $REPLY " == *" $word "* ]]; then
+          pending=1
+          flag="$word"
+        fi
+        ;;
+      *)
+        if ${fn}_subcommand "$cmdpath" "$word"; then
+          cmdpath="$REPLY"
+          positional=0
+        else
+          positional=$((positional + 1))
+        fi
+        ;;
+    esac
+  done
+
+  if ((pending)); then
+    if ${fn}_values "$cmdpath $flag"; then ${fn}_add_values; else _files; fi
+  elif [[ $PREFIX == --*=* ]]; then
+    flag="\${PREFIX%%=*}"
+    compset -P '*='
+    if ${fn}_values "$cmdpath $flag"; then ${fn}_add_values; else _files; fi
+  elif [[ $PREFIX == -* ]]; then
+    ${fn}_flags "$cmdpath"
+    _describe -t options option reply
+  else
+    ${fn}_subcommands "$cmdpath"
+    subcommands=("\${reply[@]}")
+    ((\${#subcommands})) && _describe -t commands command subcommands
+    if ${fn}_values "$cmdpath:$positional"; then
+      ${fn}_add_values
+    elif ((!\${#subcommands})); then
+      _files
+    fi
+  fi
+}
+
+if [[ $funcstack[1] == ${fn} ]]; then
+  ${fn} "$@"
+else
+  compdef ${fn} ${name}
+fi
+`;
+}
+
+function generateFish(name: string, root: CompletionCommand, commands: CompletionCommand[]): string {
+  const fn = `__${name.replace(/\W/g, "_")}`;
+  const condition = (path: string) => `-n ${fishQuote(`${fn}_is ${fishQuote(path)}`)}`;
+  const valueArguments = (values: CompletionValues) => (values.source ? ` -a ${fishQuote(`(${name} __complete ${values.source} 2>/dev/null)`)}` : ` -a ${fishQuote(values.choices?.join(" ") ?? "")}`);
+
+  const lines: string[] = [];
+  for (const command of commands) {
+    for (const subcommand of command.subcommands) {
+      for (const alias of subcommand.names) {
+        lines.push(`complete -c ${name} ${condition(command.path)} -a ${fishQuote(alias)} -d ${fishQuote(subcommand.description)}`);
+      }
+    }
+    for (const option of command.options) {
+      const flags = option.flags.map((flag) => (flag.startsWith("--") ? `-l ${flag.slice(2)}` : `-s ${flag.slice(1)}`)).join(" ");
+      const values = !option.takesValue ? "" : option.choices || option.source ? ` -x${valueArguments(option)}` : " -r -F";
+      lines.push(`complete -c ${name} ${condition(command.path)} ${flags}${values} -d ${fishQuote(option.description)}`);
+    }
+    for (const argument of command.arguments) {
+      if (argument.choices || argument.source) {
+        lines.push(`complete -c ${name} ${condition(command.path)}${valueArguments(argument)}`);
+      }
+    }
+  }
+
+  return `# fish completion for ${name}, generated by \`${name} completion fish\`
+#
+# Load it in the current shell with:
+#   ${name} completion fish | source
+# or save it as ~/.config/fish/completions/${name}.fish
+
+function ${fn}_subcommand --argument-names cmdpath word
+    switch "$cmdpath/$word"
+${commands
+  .flatMap((command) => command.subcommands.map((subcommand) => `        case ${subcommand.names.map((alias) => fishQuote(`${command.path}/${alias}`)).join(" ")}\n            echo ${fishQuote(subcommand.path)}`))
+  .join("\n")}
+        case '*'
+            return 1
+    end
+end
+
+function ${fn}_value_flags --argument-names cmdpath
+    switch "$cmdpath"
+${commands.map((command) => `        case ${fishQuote(command.path)}\n            string join \\n -- ${valueFlags(command, root).map(fishQuote).join(" ")}`).join("\n")}
+    end
+end
+
+# The canonical path of the subcommand being completed, e.g. "config profile"
+function ${fn}_path
+    set -l cmdpath ""
+    set -l pending 0
+    set -l words (commandline -opc)
+    set -e words[1]
+    for word in $words
+        if test $pending -eq 1
+            set pending 0
+        else if string match -q -- '-*' $word
+            if contains -- $word (${fn}_value_flags "$cmdpath")
+                set pending 1
+            end
+        else if set -l next (${fn}_subcommand "$cmdpath" $word)
+            set cmdpath $next
+        end
+    end
+    echo $cmdpath
+end
+
+function ${fn}_is --argument-names expected
+    set -l cmdpath (${fn}_path)
+    test "$cmdpath" = "$expected"
+end
+
+complete -c ${name} -f
+${lines.join("\n")}
+`;
+}
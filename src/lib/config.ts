@@ -2,40 +2,388 @@ import fs from "fs-extra";
 import os from "node:os";
 import path from "node:path";
 import { z } from "zod";
+import { StorageError, ValidationError } from "./errors.js";
+import { PasswordOptionsSchema, type PasswordOptions } from "./password-generator.js";
 
 const ConfigSchema = z.object({
-  defaultLength: z.number().int().min(4).max(128).default(12),
-  defaultIncludeUppercase: z.boolean().default(true),
-  defaultIncludeLowercase: z.boolean().default(true),
-  defaultIncludeNumbers: z.boolean().default(true),
-  defaultIncludeSymbols: z.boolean().default(true),
-  autoCopy: z.boolean().default(true),
-  saveHistory: z.boolean().default(false),
-  historyLimit: z.number().int().min(0).max(1000).default(100),
+  defaultLength: z.number().int().min(4).max(128).default(12).describe("Password length when --length isn't given"),
+  defaultIncludeUppercase: z.boolean().default(true).describe("Include A-Z by default"),
+  defaultIncludeLowercase: z.boolean().default(true).describe("Include a-z by default"),
+  defaultIncludeNumbers: z.boolean().default(true).describe("Include 0-9 by default"),
+  defaultIncludeSymbols: z.boolean().default(true).describe("Include symbols by default"),
+  defaultRequireEachClass: z.boolean().default(true).describe("Guarantee at least one character from each enabled class"),
+  defaultPronounceable: z.boolean().default(false).describe("Generate pronounceable syllable-based passwords by default"),
+  defaultMinUppercase: z.number().int().min(0).max(128).default(0).describe("Minimum uppercase letters"),
+  defaultMinLowercase: z.number().int().min(0).max(128).default(0).describe("Minimum lowercase letters"),
+  defaultMinNumbers: z.number().int().min(0).max(128).default(0).describe("Minimum digits"),
+  defaultMinSymbols: z.number().int().min(0).max(128).default(0).describe("Minimum symbols"),
+  autoCopy: z.boolean().default(true).describe("Copy generated passwords to the clipboard"),
+  clipboardClearSeconds: z.number().int().min(0).max(3600).default(0).describe("Clear copied secrets after this many seconds (0 = never)"),
+  clipboardRestore: z.boolean().default(false).describe("Restore the previous clipboard contents when clearing"),
+  saveHistory: z.boolean().default(false).describe("Save generated passwords to history"),
+  historyLimit: z.number().int().min(0).max(1000).default(100).describe("Maximum number of history entries kept"),
+  historyMaxAgeDays: z.number().int().min(0).max(3650).default(0).describe("Delete history entries older than this many days (0 = never)"),
+  sessionTimeout: z.number().int().min(1).max(1440).default(15).describe("Minutes an unlocked session lasts"),
+  profiles: z.record(z.string(), PasswordOptionsSchema).default({}).describe("Named generation profiles (manage with `config profile`)"),
+  defaultProfile: z.string().optional().describe("Profile gen uses when --profile isn't given"),
+  breachCorpusPath: z.string().optional().describe("Pwned Passwords file or range directory used by `check`"),
+  checkMinScore: z.number().int().min(0).max(4).default(3).describe("Lowest strength score `check` and `audit` accept (0-4)"),
+  rotationDays: z.number().int().min(0).max(3650).default(365).describe("Days before `audit` flags a stored password as due for rotation (0 = never)"),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 
-const CONFIG_DIR = path.join(os.homedir(), ".gmana");
-const CONFIG_FILE = path.join(CONFIG_DIR, "config.json");
+export type ConfigKey = keyof Config;
+
+export const CONFIG_KEYS = Object.keys(ConfigSchema.shape) as ConfigKey[];
+
+export const CONFIG_VERSION = 1;
+
+// Files may set any subset of keys; unknown keys are reported rather than dropped so typos don't go unnoticed
+const ConfigFileSchema = ConfigSchema.partial()
+  .extend({ version: z.number().int().min(0).optional() })
+  .strict();
+
+type ConfigValues = Omit<z.infer<typeof ConfigFileSchema>, "version">;
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * Upgrades raw config files one version at a time: entry N turns a version N
+ * file into version N + 1, and files without a `version` are version 0. Renamed
+ * or reshaped keys are handled here, before validation, so old files keep loading.
+ */
+const MIGRATIONS: ((raw: RawConfig, file: string) => RawConfig)[] = [
+  // 0 → 1: older releases wrote every key, defaults included, to ~/.gmana/config.json,
+  // which would pin those values over project files and future default changes. Only
+  // that file was written that way; every other file was written by hand, so its
+  // values are meant even when they equal a default.
+  (raw, file) => {
+    if (file !== LEGACY_CONFIG_FILE) return raw;
+    const defaults: RawConfig = ConfigSchema.parse({});
+    return Object.fromEntries(Object.entries(raw).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(defaults[key])));
+  },
+];
+
+/**
+ * Where a value came from. Sources are applied in this order, later ones winning:
+ * built-in defaults, the global file, a project `.gmanarc`, `GMANA_*` environment
+ * variables and finally the file passed with `--config`.
+ */
+export interface ConfigSource {
+  kind: "default" | "global" | "project" | "env" | "flag";
+  /** File path or environment variable name */
+  location?: string;
+}
+
+export interface ResolvedConfig {
+  config: Config;
+  sources: Record<ConfigKey, ConfigSource>;
+}
+
+const LEGACY_CONFIG_FILE = path.join(os.homedir(), ".gmana", "config.json");
+const XDG_CONFIG_FILE = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"), "gmana", "config.json");
+const PROJECT_CONFIG_NAME = ".gmanarc";
+const ENV_PREFIX = "GMANA_";
+
+let explicitConfigFile: string | undefined;
+
+/** Set from the global `--config <path>` flag before any command runs */
+export function setConfigFile(file: string | undefined): void {
+  explicitConfigFile = file ? path.resolve(file) : undefined;
+}
 
 export async function loadConfig(): Promise<Config> {
+  return (await resolveConfig()).config;
+}
+
+export async function resolveConfig(): Promise<ResolvedConfig> {
+  const values: Partial<Config> = {};
+  const sources = Object.fromEntries(Object.keys(ConfigSchema.shape).map((key) => [key, { kind: "default" }])) as Record<ConfigKey, ConfigSource>;
+
+  const apply = (layer: ConfigValues, source: ConfigSource) => {
+    for (const [key, value] of Object.entries(layer) as [ConfigKey, unknown][]) {
+      if (value === undefined) continue;
+      // Profiles from different files add up instead of replacing each other
+      const merged = key === "profiles" ? { ...values.profiles, ...(value as Config["profiles"]) } : value;
+      Object.assign(values, { [key]: merged });
+      sources[key] = source;
+    }
+  };
+
+  const globalFile = await findGlobalConfigFile();
+  if (globalFile) {
+    apply(await readConfigValues(globalFile), { kind: "global", location: globalFile });
+  }
+
+  const projectFile = await findProjectConfigFile(process.cwd());
+  if (projectFile) {
+    apply(await readConfigValues(projectFile), { kind: "project", location: projectFile });
+  }
+
+  for (const [key, layer] of readEnvironment()) {
+    apply(layer, { kind: "env", location: key });
+  }
+
+  if (explicitConfigFile) {
+    if (!(await fs.pathExists(explicitConfigFile))) {
+      throw new StorageError(`Config file ${explicitConfigFile} does not exist`);
+    }
+    apply(await readConfigValues(explicitConfigFile), { kind: "flag", location: explicitConfigFile });
+  }
+
+  const result = ConfigSchema.safeParse(values);
+  if (!result.success) {
+    throw new ValidationError(`Invalid configuration: ${formatIssues(result.error)}`);
+  }
+
+  return { config: result.data, sources };
+}
+
+/**
+ * Writes `config` into the file that `config set` and friends own: the
+ * `--config` file when one was given, otherwise the global file.
+ */
+export async function saveConfig(config: Partial<Config>): Promise<void> {
+  await writeConfigValues({ ...(await readWritableConfig()), ...config });
+}
+
+/** Removes a key from the writable file so the value falls back to the other sources */
+export async function unsetConfigValue(key: ConfigKey): Promise<void> {
+  const values: ConfigValues = { ...(await readWritableConfig()) };
+  delete values[key];
+  await writeConfigValues(values);
+}
+
+/** Drops every setting from the writable file except saved profiles */
+export async function resetConfigFile(): Promise<void> {
+  const { profiles, defaultProfile } = await readWritableConfig();
+  await writeConfigValues({ profiles, defaultProfile });
+}
+
+/** Values stored in the writable config file only, without defaults or other layers */
+export async function readWritableConfig(): Promise<ConfigValues> {
+  const file = await getWritableConfigFile();
+  return (await fs.pathExists(file)) ? readConfigValues(file) : {};
+}
+
+/** Returns why a config file is invalid, or undefined when it loads */
+export async function checkConfigFile(file: string): Promise<string | undefined> {
   try {
-    if (await fs.pathExists(CONFIG_FILE)) {
-      const rawConfig = await fs.readJson(CONFIG_FILE);
-      return ConfigSchema.parse(rawConfig);
+    await readConfigValues(file);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Accepts exact key names case-insensitively, plus the short forms older
+ * versions took, e.g. `length` for `defaultLength`.
+ */
+export function resolveConfigKey(name: string): ConfigKey {
+  const normalized = name.trim().toLowerCase().replace(/[-_]/g, "");
+  const key = CONFIG_KEYS.find((candidate) => candidate.toLowerCase() === normalized) ?? CONFIG_KEYS.find((candidate) => candidate.toLowerCase() === `default${normalized}`);
+
+  if (!key) {
+    throw new ValidationError(`Unknown configuration key "${name}". Run \`gmana config list\` to see all keys`);
+  }
+
+  return key;
+}
+
+/** Turns command-line text into a value for `key`, with errors that name the expected type or range */
+export function parseConfigValue(key: ConfigKey, raw: string): unknown {
+  const schema = ConfigSchema.shape[key];
+  const result = ConfigFileSchema.shape[key].safeParse(coerceConfigValue(raw, schema));
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const message = issue.code === "invalid_type" ? `expected ${describeConfigType(key)}, got "${raw}"` : issue.message;
+    throw new ValidationError(`Invalid value for ${key}: ${message}`);
+  }
+
+  return result.data;
+}
+
+export function describeConfigKey(key: ConfigKey): { type: string; description: string; defaultValue: unknown } {
+  const schema = ConfigSchema.shape[key];
+  return { type: describeConfigType(key), description: schema.description ?? "", defaultValue: schema.safeParse(undefined).data };
+}
+
+export async function getWritableConfigFile(): Promise<string> {
+  return explicitConfigFile ?? (await findGlobalConfigFile()) ?? LEGACY_CONFIG_FILE;
+}
+
+export function describeConfigSource(source: ConfigSource): string {
+  switch (source.kind) {
+    case "default":
+      return "default";
+    case "env":
+      return `env ${source.location}`;
+    case "flag":
+      return `--config ${source.location}`;
+    default:
+      return `${source.kind} ${source.location?.replace(os.homedir(), "~")}`;
+  }
+}
+
+export function envVarForKey(key: ConfigKey): string {
+  return ENV_PREFIX + key.replace(/([A-Z])/g, "_$1").toUpperCase();
+}
+
+// The XDG location wins when it exists; ~/.gmana/config.json is where gmana has always kept it
+async function findGlobalConfigFile(): Promise<string | undefined> {
+  for (const file of [XDG_CONFIG_FILE, LEGACY_CONFIG_FILE]) {
+    if (await fs.pathExists(file)) return file;
+  }
+  return undefined;
+}
+
+async function findProjectConfigFile(directory: string): Promise<string | undefined> {
+  let current = path.resolve(directory);
+
+  while (true) {
+    const candidate = path.join(current, PROJECT_CONFIG_NAME);
+    if (await fs.pathExists(candidate)) return candidate;
+
+    const parent = path.dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+async function readConfigValues(file: string): Promise<ConfigValues> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    throw new StorageError(`Config file ${file} is not valid JSON${error instanceof SyntaxError ? `: ${error.message}` : ""}`);
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new StorageError(`Config file ${file} must contain a JSON object`);
+  }
+
+  const result = ConfigFileSchema.safeParse(migrateConfig(raw as RawConfig, file));
+  if (!result.success) {
+    throw new StorageError(`Invalid config file ${file}: ${formatIssues(result.error)}`);
+  }
+
+  const values = { ...result.data };
+  delete values.version;
+  return values;
+}
+
+function migrateConfig(raw: RawConfig, file: string): RawConfig {
+  const version = typeof raw.version === "number" ? raw.version : 0;
+
+  if (version > CONFIG_VERSION) {
+    throw new StorageError(`Config file ${file} was written by a newer gmana (config version ${version}); upgrade gmana to use it`);
+  }
+
+  let migrated = raw;
+  for (let step = version; step < CONFIG_VERSION; step++) {
+    migrated = MIGRATIONS[step](migrated, file);
+  }
+
+  return { ...migrated, version: CONFIG_VERSION };
+}
+
+async function writeConfigValues(values: ConfigValues): Promise<void> {
+  const file = await getWritableConfigFile();
+  const result = ConfigFileSchema.safeParse({ version: CONFIG_VERSION, ...values });
+
+  if (!result.success) {
+    throw new ValidationError(`Invalid configuration: ${formatIssues(result.error)}`);
+  }
+
+  await fs.ensureDir(path.dirname(file));
+  await fs.writeJson(file, result.data, { spaces: 2 });
+}
+
+/** One layer per `GMANA_*` variable that names a config key, coerced to the key's type */
+function readEnvironment(): [string, ConfigValues][] {
+  const layers: [string, ConfigValues][] = [];
+
+  for (const key of CONFIG_KEYS) {
+    const name = envVarForKey(key);
+    const raw = process.env[name];
+    if (raw === undefined) continue;
+
+    try {
+      layers.push([name, { [key]: parseConfigValue(key, raw) }]);
+    } catch (error) {
+      throw new ValidationError(`Invalid ${name}: ${error instanceof Error ? error.message : error}`);
     }
+  }
+
+  return layers;
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let inner = schema;
+  while (inner instanceof z.ZodDefault || inner instanceof z.ZodOptional) {
+    inner = inner instanceof z.ZodDefault ? inner.removeDefault() : inner.unwrap();
+  }
+  return inner;
+}
+
+function coerceConfigValue(raw: string, schema: z.ZodTypeAny): unknown {
+  const inner = unwrapSchema(schema);
+
+  if (inner instanceof z.ZodNumber) {
+    return raw.trim() === "" ? raw : Number(raw.trim());
+  }
+
+  if (inner instanceof z.ZodBoolean) {
+    const value = raw.trim().toLowerCase();
+    if (["true", "1", "yes", "on"].includes(value)) return true;
+    if (["false", "0", "no", "off"].includes(value)) return false;
+    return raw;
+  }
+
+  if (inner instanceof z.ZodString || inner instanceof z.ZodEnum) {
+    return raw.trim();
+  }
+
+  // Structured values like profiles are given as JSON
+  try {
+    return JSON.parse(raw);
   } catch {
-    // Fall back to defaults if config is invalid
+    return raw;
   }
+}
 
-  return ConfigSchema.parse({});
+function describeConfigType(key: ConfigKey): string {
+  const inner = unwrapSchema(ConfigSchema.shape[key]);
+
+  if (inner instanceof z.ZodNumber) {
+    const { minValue, maxValue } = inner;
+    return minValue !== null && maxValue !== null ? `a whole number from ${minValue} to ${maxValue}` : "a number";
+  }
+  if (inner instanceof z.ZodBoolean) return "true or false";
+  if (inner instanceof z.ZodEnum) return `one of ${(inner.options as string[]).join(", ")}`;
+  if (inner instanceof z.ZodString) return "text";
+  return "a JSON object";
 }
 
-export async function saveConfig(config: Partial<Config>): Promise<void> {
-  await fs.ensureDir(CONFIG_DIR);
-  const currentConfig = await loadConfig();
-  const newConfig = { ...currentConfig, ...config };
-  const validatedConfig = ConfigSchema.parse(newConfig);
-  await fs.writeJson(CONFIG_FILE, validatedConfig, { spaces: 2 });
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message)).join("; ");
+}
+
+export function getDefaultPasswordOptions(config: Config): PasswordOptions {
+  return PasswordOptionsSchema.parse({
+    length: config.defaultLength,
+    includeUppercase: config.defaultIncludeUppercase,
+    includeLowercase: config.defaultIncludeLowercase,
+    includeNumbers: config.defaultIncludeNumbers,
+    includeSymbols: config.defaultIncludeSymbols,
+    requireEachClass: config.defaultRequireEachClass,
+    pronounceable: config.defaultPronounceable,
+    minUppercase: config.defaultMinUppercase,
+    minLowercase: config.defaultMinLowercase,
+    minNumbers: config.defaultMinNumbers,
+    minSymbols: config.defaultMinSymbols,
+  });
 }
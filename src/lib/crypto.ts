@@ -0,0 +1,75 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+import { AuthError } from "./errors.js";
+
+export const KdfParamsSchema = z.object({
+  name: z.literal("scrypt"),
+  salt: z.string(),
+  N: z.number().int().positive(),
+  r: z.number().int().positive(),
+  p: z.number().int().positive(),
+  keyLength: z.number().int().positive(),
+});
+
+export const EncryptedPayloadSchema = z.object({
+  version: z.literal(1),
+  cipher: z.literal("aes-256-gcm"),
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string(),
+});
+
+export type KdfParams = z.infer<typeof KdfParamsSchema>;
+export type EncryptedPayload = z.infer<typeof EncryptedPayloadSchema>;
+
+// scrypt with N=2^17, r=8 needs 128 MiB per derivation, which is what makes brute forcing expensive
+const DEFAULT_KDF = { N: 2 ** 17, r: 8, p: 1, keyLength: 32 };
+const IV_LENGTH = 12;
+
+export function createKdfParams(): KdfParams {
+  return {
+    name: "scrypt",
+    salt: crypto.randomBytes(16).toString("base64"),
+    ...DEFAULT_KDF,
+  };
+}
+
+export function deriveKey(passphrase: string, params: KdfParams): Promise<Buffer> {
+  const salt = Buffer.from(params.salt, "base64");
+  const maxmem = 256 * params.N * params.r;
+
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase.normalize("NFKC"), salt, params.keyLength, { N: params.N, r: params.r, p: params.p, maxmem }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export function encrypt(key: Buffer, plaintext: string): EncryptedPayload {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    version: 1,
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+export function decrypt(key: Buffer, payload: EncryptedPayload): string {
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(payload.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(payload.data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new AuthError("Decryption failed: wrong passphrase or corrupted data");
+  }
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  return EncryptedPayloadSchema.safeParse(value).success;
+}
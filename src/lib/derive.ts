@@ -0,0 +1,121 @@
+import fs from "fs-extra";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { deriveKey } from "./crypto.js";
+import { NotFoundError, StorageError, ValidationError } from "./errors.js";
+import { PasswordGenerator, PasswordOptionsSchema } from "./password-generator.js";
+import { createSeededRandom } from "./random.js";
+
+/**
+ * Stateless passwords: scrypt turns the master password, site, login and
+ * counter into a seed, and the seed drives the regular generator. The same
+ * inputs give the same password on any machine, so nothing secret is stored;
+ * only the per-site parameters can be remembered.
+ *
+ * Changing the KDF settings, the salt layout or how the generator consumes
+ * randomness changes every derived password, so any of those needs a new
+ * `version`.
+ */
+
+export const DERIVE_VERSION = 1;
+
+export const DerivedSiteSchema = z.object({
+  site: z.string().min(1),
+  login: z.string().default(""),
+  counter: z.number().int().min(1).max(1_000_000).default(1),
+  version: z.literal(DERIVE_VERSION).default(DERIVE_VERSION),
+  options: PasswordOptionsSchema,
+});
+
+const StoredSiteSchema = DerivedSiteSchema.extend({ updatedAt: z.string() });
+const StoredSitesSchema = z.array(StoredSiteSchema);
+
+export type DerivedSite = z.infer<typeof DerivedSiteSchema>;
+export type StoredSite = z.infer<typeof StoredSiteSchema>;
+
+const CONFIG_DIR = path.join(os.homedir(), ".gmana");
+const SITES_FILE = path.join(CONFIG_DIR, "derive.json");
+const FILE_MODE = 0o600;
+
+// 32 MiB per derivation, like Spectre: slow enough to hurt brute forcing, fast enough per site
+const DERIVE_KDF = { N: 2 ** 15, r: 8, p: 2, keyLength: 64 };
+const SALT_CONTEXT = "gmana-derive";
+
+export async function derivePassword(masterPassword: string, params: DerivedSite): Promise<string> {
+  if (!masterPassword) {
+    throw new ValidationError("The master password can't be empty");
+  }
+
+  const site = DerivedSiteSchema.parse(params);
+  const salt = [SALT_CONTEXT, String(site.version), normalizeSite(site.site), site.login, String(site.counter)].join("\0");
+  const seed = await deriveKey(masterPassword, { name: "scrypt", salt: Buffer.from(salt, "utf8").toString("base64"), ...DERIVE_KDF });
+
+  return PasswordGenerator.generate(site.options, createSeededRandom(seed));
+}
+
+/** Reduces URLs and paths to the host, so "https://Example.com/login" and "example.com" derive the same password */
+export function normalizeSite(input: string): string {
+  const value = input.trim().toLowerCase();
+
+  if (value.includes("://")) {
+    try {
+      return new URL(value).hostname;
+    } catch {
+      throw new ValidationError(`"${input}" is not a valid URL`);
+    }
+  }
+
+  return value.split("/")[0].replace(/\.$/, "");
+}
+
+export async function loadDerivedSites(): Promise<StoredSite[]> {
+  if (!(await fs.pathExists(SITES_FILE))) {
+    return [];
+  }
+
+  const result = StoredSitesSchema.safeParse(await fs.readJson(SITES_FILE));
+  if (!result.success) {
+    throw new StorageError(`${SITES_FILE} is corrupted: ${result.error.issues[0].message}`);
+  }
+
+  return result.data;
+}
+
+/** The stored parameters for `site`, narrowed by login when one site has several */
+export async function findDerivedSite(site: string, login?: string): Promise<StoredSite | undefined> {
+  const name = normalizeSite(site);
+  const matches = (await loadDerivedSites()).filter((entry) => entry.site === name && (login === undefined || entry.login === login));
+
+  if (matches.length > 1) {
+    const logins = matches.map((entry) => entry.login || "(no login)").join(", ");
+    throw new ValidationError(`"${name}" has parameters for several logins (${logins}). Pass --login`);
+  }
+
+  return matches[0];
+}
+
+/** Stores the parameters for a site and login, replacing any earlier ones */
+export async function saveDerivedSite(params: DerivedSite): Promise<StoredSite> {
+  const site: StoredSite = { ...DerivedSiteSchema.parse({ ...params, site: normalizeSite(params.site) }), updatedAt: new Date().toISOString() };
+  const others = (await loadDerivedSites()).filter((entry) => entry.site !== site.site || entry.login !== site.login);
+
+  await writeSites([...others, site].sort((a, b) => a.site.localeCompare(b.site) || a.login.localeCompare(b.login)));
+  return site;
+}
+
+export async function removeDerivedSite(site: string, login?: string): Promise<StoredSite> {
+  const entry = await findDerivedSite(site, login);
+  if (!entry) {
+    throw new NotFoundError(`No saved parameters for "${normalizeSite(site)}"`);
+  }
+
+  const sites = await loadDerivedSites();
+  await writeSites(sites.filter((other) => other.site !== entry.site || other.login !== entry.login));
+  return entry;
+}
+
+async function writeSites(sites: StoredSite[]): Promise<void> {
+  await fs.ensureDir(CONFIG_DIR);
+  await fs.writeJson(SITES_FILE, sites, { spaces: 2, mode: FILE_MODE });
+}
@@ -0,0 +1,66 @@
+/**
+ * Errors that map to gmana's exit codes, so scripts can tell a typo in the
+ * command line from a bad value or an unreadable file. Anything else exits
+ * with the general failure code.
+ */
+
+export const EXIT_CODES = {
+  /** Success */
+  ok: 0,
+  /** Unexpected errors, and checks that ran but failed (check, token verify) */
+  failure: 1,
+  /** Unknown command or option, missing argument, conflicting flags */
+  usage: 2,
+  /** An option, argument or setting has an invalid value */
+  validation: 3,
+  /** A config, history, vault or other data file can't be read or written */
+  storage: 4,
+  /** Wrong passphrase, or gmana is locked and can't ask for one */
+  auth: 5,
+  /** A named vault entry, OTP account or remembered site doesn't exist */
+  notFound: 6,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export class UsageError extends Error {
+  readonly exitCode: ExitCode = EXIT_CODES.usage;
+  override name = "UsageError";
+}
+
+export class ValidationError extends Error {
+  readonly exitCode: ExitCode = EXIT_CODES.validation;
+  override name = "ValidationError";
+}
+
+export class StorageError extends Error {
+  readonly exitCode: ExitCode = EXIT_CODES.storage;
+  override name = "StorageError";
+}
+
+export class AuthError extends Error {
+  readonly exitCode: ExitCode = EXIT_CODES.auth;
+  override name = "AuthError";
+}
+
+export class NotFoundError extends Error {
+  readonly exitCode: ExitCode = EXIT_CODES.notFound;
+  override name = "NotFoundError";
+}
+
+// Node's errno codes for filesystem failures
+const STORAGE_ERROR_CODES = new Set(["ENOENT", "EACCES", "EPERM", "EROFS", "ENOSPC", "EISDIR", "ENOTDIR", "EEXIST", "EBUSY", "EMFILE"]);
+
+export function exitCodeFor(error: unknown): ExitCode {
+  if (error instanceof UsageError || error instanceof ValidationError || error instanceof StorageError || error instanceof AuthError || error instanceof NotFoundError) {
+    return error.exitCode;
+  }
+  if (error && typeof error === "object" && "code" in error && typeof error.code === "string" && STORAGE_ERROR_CODES.has(error.code)) {
+    return EXIT_CODES.storage;
+  }
+  // fs-extra's readJson surfaces corrupted files as SyntaxErrors
+  if (error instanceof SyntaxError) {
+    return EXIT_CODES.storage;
+  }
+  return EXIT_CODES.failure;
+}
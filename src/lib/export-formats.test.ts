@@ -0,0 +1,182 @@
+import fs from "node:fs";
+import { describe, expect, it } from "vitest";
+import { detectExportFormat, EXPORT_FORMATS, HISTORY_FORMATS, HISTORY_TAG, parseExport, serializeExport, type ExportData, type ExportFormat } from "./export-formats.js";
+import type { HistoryEntry } from "./history.js";
+import type { VaultEntry } from "./vault.js";
+
+const fixture = (name: string) => fs.readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+
+const vault: VaultEntry[] = [
+  {
+    id: "0b7f5c3e-8a41-4d2e-9f60-1c2b3d4e5f60",
+    site: "github.com",
+    url: "https://github.com/login",
+    username: "alice",
+    password: 'p,a"ss;<w>&rd',
+    notes: "line one\nline two, with a comma",
+    tags: ["dev", "work"],
+    createdAt: "2023-04-01T10:00:00.000Z",
+    updatedAt: "2024-02-15T08:30:00.000Z",
+  },
+  {
+    id: "1c8a6d4f-9b52-4e3f-a071-2d3c4e5f6071",
+    site: "example.com",
+    password: "🔑-émoji-pass",
+    tags: [],
+    createdAt: "2022-11-20T12:00:00.000Z",
+    updatedAt: "2022-11-20T12:00:00.000Z",
+  },
+];
+
+const history: HistoryEntry[] = [
+  {
+    id: "2d9b7e50-ac63-4f40-b182-3e4f50617283",
+    password: "Xk9#mP2$vL",
+    options: { length: 10, includeUppercase: true, includeLowercase: true, includeNumbers: true, includeSymbols: true, includeExtraSymbols: false },
+    createdAt: "2024-05-01T07:00:00.000Z",
+  },
+];
+
+const data: ExportData = { vault, history };
+
+describe("fixtures", () => {
+  it("reads a Bitwarden export", () => {
+    const parsed = parseExport("bitwarden-json", fixture("bitwarden.json"));
+
+    expect(parsed.items).toEqual([
+      {
+        name: "GitHub",
+        url: "https://github.com/login",
+        username: "alice",
+        password: "gh-Secret!42",
+        notes: "Recovery codes are in the safe",
+        tags: ["work", "dev", "code"],
+        createdAt: "2023-04-01T10:00:00.000Z",
+        updatedAt: "2024-02-15T08:30:00.000Z",
+      },
+      {
+        name: "mail.example.com",
+        url: "https://mail.example.com/",
+        username: undefined,
+        password: "m@il-Pass-9",
+        notes: undefined,
+        tags: [],
+        createdAt: "2022-11-20T12:00:00.000Z",
+        updatedAt: "2022-11-20T12:00:00.000Z",
+      },
+    ]);
+    expect(parsed.skipped).toEqual(["Wi-Fi: not a login", "Forum: no password"]);
+  });
+
+  it("reads a KeePass export, skipping old versions and the recycle bin", () => {
+    const parsed = parseExport("keepass-xml", fixture("keepass.xml"));
+
+    expect(parsed.items).toEqual([
+      {
+        name: "Bank & Trust",
+        url: "https://bank.example.com",
+        username: "alice.smith",
+        password: '<b4nk>"Pass"',
+        notes: "PIN hint: birthday\nSecond line",
+        tags: ["bank", "finance"],
+        createdAt: "2021-06-01T09:00:00.000Z",
+        updatedAt: "2023-01-10T18:45:00.000Z",
+      },
+      {
+        name: "shop.example.org",
+        url: "https://shop.example.org/account",
+        username: "alice@example.com",
+        password: "sh0p-Till-Drop",
+        notes: undefined,
+        tags: [],
+        createdAt: "2022-03-05T14:20:00.000Z",
+        updatedAt: "2022-03-05T14:20:00.000Z",
+      },
+    ]);
+    expect(parsed.skipped).toEqual(["Loyalty card: no password"]);
+  });
+
+  it("reads a 1Password CSV export with quoted fields and CRLF line endings", () => {
+    const parsed = parseExport("1password-csv", fixture("1password.csv"));
+
+    expect(parsed.items).toEqual([
+      {
+        name: "Dropbox",
+        url: "https://www.dropbox.com",
+        username: "alice@example.com",
+        password: 'dr0p,box"Pass',
+        notes: "Shared folder\nfor the family",
+        tags: ["storage", "personal"],
+      },
+      {
+        name: "Router",
+        url: "http://192.168.1.1",
+        username: "admin",
+        password: "r0uter!Admin",
+        notes: undefined,
+        tags: [],
+      },
+    ]);
+    expect(parsed.skipped).toEqual(["Old login: no password"]);
+  });
+
+  it("reads a Chrome CSV export, naming rows without a name by host", () => {
+    const parsed = parseExport("chrome-csv", fixture("chrome.csv"));
+
+    expect(parsed.items.map(({ name, username, password }) => ({ name, username, password }))).toEqual([
+      { name: "accounts.google.com", username: "alice@gmail.com", password: "g00gle-Pass!" },
+      { name: "news.example.com", username: "alice", password: "news,pass" },
+    ]);
+    expect(parsed.items[1].notes).toBe("remember me");
+    expect(parsed.skipped).toEqual(["example.org: no password"]);
+  });
+
+  it.each([
+    ["bitwarden.json", "bitwarden-json"],
+    ["keepass.xml", "keepass-xml"],
+    ["1password.csv", "1password-csv"],
+    ["chrome.csv", "chrome-csv"],
+  ])("detects the format of %s", (name, format) => {
+    expect(detectExportFormat(fixture(name), name)).toBe(format);
+  });
+});
+
+describe("round trip", () => {
+  it.each(EXPORT_FORMATS)("%s keeps every vault field the format can hold", (format) => {
+    const parsed = parseExport(format, serializeExport(format, { vault, history: [] }));
+
+    expect(detectExportFormat(serializeExport(format, { vault, history: [] }))).toBe(format);
+    expect(parsed.skipped).toEqual([]);
+    expect(parsed.history).toEqual([]);
+    expect(parsed.items).toHaveLength(vault.length);
+
+    parsed.items.forEach((item, i) => {
+      expect(item.name).toBe(vault[i].site);
+      expect(item.url).toBe(vault[i].url);
+      expect(item.username).toBe(vault[i].username);
+      expect(item.password).toBe(vault[i].password);
+      expect(item.notes).toBe(vault[i].notes);
+      if (format !== "chrome-csv") {
+        expect(item.tags).toEqual(vault[i].tags);
+      }
+    });
+  });
+
+  it.each(HISTORY_FORMATS)("%s brings history back as history, not vault items", (format) => {
+    const parsed = parseExport(format, serializeExport(format, data));
+
+    expect(parsed.items.map((item) => item.name)).toEqual(vault.map((entry) => entry.site));
+    expect(parsed.items.every((item) => !item.tags.includes(HISTORY_TAG))).toBe(true);
+    expect(parsed.history).toHaveLength(1);
+    expect(parsed.history[0]).toMatchObject({ id: history[0].id, password: history[0].password, createdAt: history[0].createdAt });
+    expect(parsed.history[0].options.length).toBe(10);
+  });
+
+  it("keeps gmana-json history settings unchanged", () => {
+    expect(parseExport("gmana-json", serializeExport("gmana-json", data)).history).toEqual(history);
+  });
+
+  it("only lists formats that can tag history as history formats", () => {
+    expect(EXPORT_FORMATS.filter((format) => !HISTORY_FORMATS.includes(format))).toEqual<ExportFormat[]>(["chrome-csv"]);
+  });
+});
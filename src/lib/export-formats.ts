@@ -0,0 +1,499 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+import { formatCsvRow, parseCsvRecords } from "./csv.js";
+import { ValidationError } from "./errors.js";
+import { HistoryEntrySchema, inferHistoryOptions, type HistoryEntry } from "./history.js";
+import { VaultEntrySchema, type VaultEntry } from "./vault.js";
+import { childElements, childText, escapeXml, parseXml, type XmlElement } from "./xml.js";
+
+/**
+ * Readers and writers for the formats other password managers import and
+ * export. Everything goes through `PortableItem`, the fields they all share;
+ * `gmana-json` additionally carries history entries unchanged.
+ */
+
+export const EXPORT_FORMATS = ["gmana-json", "bitwarden-json", "keepass-xml", "1password-csv", "chrome-csv"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface PortableItem {
+  name: string;
+  url?: string;
+  username?: string;
+  password: string;
+  notes?: string;
+  tags: string[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ExportData {
+  vault: VaultEntry[];
+  history: HistoryEntry[];
+}
+
+export interface ParsedExport {
+  items: PortableItem[];
+  history: HistoryEntry[];
+  /** Why individual records were left out, e.g. credit cards or rows without a password */
+  skipped: string[];
+}
+
+/** Tag given to history entries exported to formats that have no notion of history */
+export const HISTORY_TAG = "gmana-history";
+
+/** Formats that can carry history: gmana-json natively, the others through HISTORY_TAG. Chrome CSV has no tags */
+export const HISTORY_FORMATS: readonly ExportFormat[] = ["gmana-json", "bitwarden-json", "keepass-xml", "1password-csv"];
+
+export function serializeExport(format: ExportFormat, data: ExportData): string {
+  if (format === "gmana-json") {
+    return JSON.stringify({ format: "gmana", version: 1, exportedAt: new Date().toISOString(), vault: data.vault, history: data.history }, null, 2) + "\n";
+  }
+
+  const items = [...data.vault.map(vaultEntryToItem), ...data.history.map(historyEntryToItem)];
+
+  switch (format) {
+    case "bitwarden-json":
+      return writeBitwarden(items);
+    case "keepass-xml":
+      return writeKeepass(items);
+    case "1password-csv":
+      return writeOnePassword(items);
+    case "chrome-csv":
+      return writeChrome(items);
+  }
+}
+
+export function parseExport(format: ExportFormat, text: string): ParsedExport {
+  switch (format) {
+    case "gmana-json":
+      return readGmana(text);
+    case "bitwarden-json":
+      return extractHistory(readBitwarden(text));
+    case "keepass-xml":
+      return extractHistory(readKeepass(text));
+    case "1password-csv":
+      return extractHistory(readOnePassword(text));
+    case "chrome-csv":
+      return readChrome(text);
+  }
+}
+
+/** Guesses the format from the file name and the start of its content */
+export function detectExportFormat(text: string, fileName?: string): ExportFormat | undefined {
+  const start = text.trimStart().slice(0, 512);
+
+  if (start.startsWith("<")) {
+    return start.includes("<KeePassFile") ? "keepass-xml" : undefined;
+  }
+
+  if (start.startsWith("{")) {
+    if (/"format"\s*:\s*"gmana"/.test(start)) return "gmana-json";
+    if (/"items"\s*:/.test(text)) return "bitwarden-json";
+    return undefined;
+  }
+
+  const header = start.replace(/^\uFEFF/, "").split(/\r?\n/)[0].toLowerCase();
+  if (/^"?name"?,"?url"?,"?username"?,"?password"?/.test(header)) return "chrome-csv";
+  if (/^"?title"?,/.test(header) && header.includes("password")) return "1password-csv";
+  if (fileName?.endsWith(".xml")) return "keepass-xml";
+
+  return undefined;
+}
+
+function vaultEntryToItem(entry: VaultEntry): PortableItem {
+  return {
+    name: entry.site,
+    url: entry.url,
+    username: entry.username,
+    password: entry.password,
+    notes: entry.notes,
+    tags: entry.tags,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+function historyEntryToItem(entry: HistoryEntry): PortableItem {
+  return {
+    name: "gmana history",
+    password: entry.password,
+    notes: `Generated by gmana on ${entry.createdAt} (history id ${entry.id})`,
+    tags: [HISTORY_TAG],
+    createdAt: entry.createdAt,
+    updatedAt: entry.createdAt,
+  };
+}
+
+const HISTORY_NOTE = /Generated by gmana on (\S+) \(history id ([0-9a-f-]{36})\)/;
+
+/** Turns items written by historyEntryToItem back into history entries */
+function extractHistory(parsed: ParsedExport): ParsedExport {
+  const items: PortableItem[] = [];
+  const history: HistoryEntry[] = [...parsed.history];
+
+  for (const item of parsed.items) {
+    if (!item.tags.includes(HISTORY_TAG)) {
+      items.push(item);
+      continue;
+    }
+
+    // CSV formats have no dates, and keeping the exported id stops repeated imports from duplicating history
+    const note = item.notes?.match(HISTORY_NOTE);
+    const createdAt = item.createdAt ?? validDate(note?.[1]) ?? new Date().toISOString();
+    const id = note?.[2] ?? crypto.randomUUID();
+    history.push({ id, password: item.password, options: inferHistoryOptions(item.password), createdAt });
+  }
+
+  return { ...parsed, items, history };
+}
+
+// gmana-json
+
+const GmanaExportSchema = z.object({
+  format: z.literal("gmana"),
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  vault: z.array(VaultEntrySchema).default([]),
+  history: z.array(HistoryEntrySchema).default([]),
+});
+
+function readGmana(text: string): ParsedExport {
+  const data = validate(GmanaExportSchema, parseJson(text), "gmana export");
+  return { items: data.vault.map(vaultEntryToItem), history: data.history, skipped: [] };
+}
+
+// Bitwarden (unencrypted JSON export)
+
+const BitwardenItemSchema = z.object({
+  type: z.number(),
+  name: z.string().nullable().default(""),
+  notes: z.string().nullable().optional(),
+  folderId: z.string().nullable().optional(),
+  creationDate: z.string().nullable().optional(),
+  revisionDate: z.string().nullable().optional(),
+  fields: z.array(z.object({ name: z.string().nullable().optional(), value: z.string().nullable().optional() })).nullable().optional(),
+  login: z
+    .object({
+      username: z.string().nullable().optional(),
+      password: z.string().nullable().optional(),
+      uris: z.array(z.object({ uri: z.string().nullable().optional() })).nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+const BitwardenExportSchema = z.object({
+  encrypted: z.boolean().optional(),
+  folders: z.array(z.object({ id: z.string(), name: z.string() })).default([]),
+  items: z.array(BitwardenItemSchema),
+});
+
+const BITWARDEN_LOGIN = 1;
+
+function readBitwarden(text: string): ParsedExport {
+  const data = validate(BitwardenExportSchema, parseJson(text), "Bitwarden export");
+
+  if (data.encrypted) {
+    throw new ValidationError("Encrypted Bitwarden exports can't be read. Export as unencrypted JSON and import the result with gmana's encryption");
+  }
+
+  const folders = new Map(data.folders.map((folder) => [folder.id, folder.name]));
+  const items: PortableItem[] = [];
+  const skipped: string[] = [];
+
+  data.items.forEach((item, index) => {
+    const label = item.name || `item ${index + 1}`;
+
+    if (item.type !== BITWARDEN_LOGIN) {
+      skipped.push(`${label}: not a login`);
+      return;
+    }
+
+    if (!item.login?.password) {
+      skipped.push(`${label}: no password`);
+      return;
+    }
+
+    const folder = item.folderId ? folders.get(item.folderId) : undefined;
+    const tagField = item.fields?.find((field) => field.name === "tags")?.value;
+
+    items.push({
+      name: item.name || hostnameOf(item.login.uris?.[0]?.uri) || label,
+      url: item.login.uris?.find((uri) => uri.uri)?.uri ?? undefined,
+      username: item.login.username || undefined,
+      password: item.login.password,
+      notes: item.notes || undefined,
+      tags: splitTags([folder, tagField].filter(Boolean).join(",")),
+      createdAt: validDate(item.creationDate),
+      updatedAt: validDate(item.revisionDate),
+    });
+  });
+
+  return { items, history: [], skipped };
+}
+
+function writeBitwarden(items: PortableItem[]): string {
+  // Bitwarden items live in at most one folder, so the first tag becomes the folder and all tags go in a custom field
+  const folderNames = [...new Set(items.map((item) => item.tags[0]).filter((tag): tag is string => Boolean(tag)))];
+  const folders = folderNames.map((name) => ({ id: crypto.randomUUID(), name }));
+  const folderIds = new Map(folders.map((folder) => [folder.name, folder.id]));
+
+  const exported = {
+    encrypted: false,
+    folders,
+    items: items.map((item) => ({
+      id: crypto.randomUUID(),
+      organizationId: null,
+      folderId: item.tags[0] ? (folderIds.get(item.tags[0]) ?? null) : null,
+      type: BITWARDEN_LOGIN,
+      reprompt: 0,
+      name: item.name,
+      notes: item.notes ?? null,
+      favorite: false,
+      fields: item.tags.length > 0 ? [{ name: "tags", value: item.tags.join(", "), type: 0, linkedId: null }] : [],
+      login: {
+        uris: item.url ? [{ match: null, uri: item.url }] : [],
+        username: item.username ?? null,
+        password: item.password,
+        totp: null,
+      },
+      collectionIds: null,
+      creationDate: item.createdAt ?? null,
+      revisionDate: item.updatedAt ?? null,
+    })),
+  };
+
+  return JSON.stringify(exported, null, 2) + "\n";
+}
+
+// KeePass 2.x XML
+
+function readKeepass(text: string): ParsedExport {
+  const document = parseXml(text);
+  if (document.name !== "KeePassFile") {
+    throw new ValidationError("Not a KeePass XML export: the root element isn't <KeePassFile>");
+  }
+
+  const root = document.children.find((child) => child.name === "Root");
+  if (!root) {
+    throw new ValidationError("KeePass XML export has no <Root> element");
+  }
+
+  const items: PortableItem[] = [];
+  const skipped: string[] = [];
+
+  // Entries inside <History> are old versions, so only follow groups
+  const visitGroup = (group: XmlElement) => {
+    if (childText(group, "Name") === "Recycle Bin") return;
+
+    childElements(group, "Entry").forEach((entry) => {
+      const strings = new Map(childElements(entry, "String").map((field) => [childText(field, "Key") ?? "", childText(field, "Value") ?? ""]));
+      const title = strings.get("Title") || hostnameOf(strings.get("URL")) || "untitled";
+      const password = strings.get("Password");
+
+      if (!password) {
+        skipped.push(`${title}: no password`);
+        return;
+      }
+
+      const times = entry.children.find((child) => child.name === "Times");
+
+      items.push({
+        name: title,
+        url: strings.get("URL") || undefined,
+        username: strings.get("UserName") || undefined,
+        password,
+        notes: strings.get("Notes") || undefined,
+        tags: splitTags(childText(entry, "Tags") ?? ""),
+        createdAt: validDate(times && childText(times, "CreationTime")),
+        updatedAt: validDate(times && childText(times, "LastModificationTime")),
+      });
+    });
+
+    childElements(group, "Group").forEach(visitGroup);
+  };
+
+  childElements(root, "Group").forEach(visitGroup);
+
+  return { items, history: [], skipped };
+}
+
+function writeKeepass(items: PortableItem[]): string {
+  const field = (key: string, value: string | undefined, protect = false) =>
+    `        <String><Key>${key}</Key><Value${protect ? ' ProtectInMemory="True"' : ""}>${escapeXml(value ?? "")}</Value></String>`;
+
+  const entries = items.map((item) =>
+    [
+      "      <Entry>",
+      `        <UUID>${crypto.randomBytes(16).toString("base64")}</UUID>`,
+      `        <Tags>${escapeXml(item.tags.join(";"))}</Tags>`,
+      "        <Times>",
+      `          <CreationTime>${item.createdAt ?? ""}</CreationTime>`,
+      `          <LastModificationTime>${item.updatedAt ?? ""}</LastModificationTime>`,
+      "        </Times>",
+      field("Title", item.name),
+      field("UserName", item.username),
+      field("Password", item.password, true),
+      field("URL", item.url),
+      field("Notes", item.notes),
+      "      </Entry>",
+    ].join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8" standalone="yes"?>',
+    "<KeePassFile>",
+    "  <Meta>",
+    "    <Generator>gmana</Generator>",
+    "  </Meta>",
+    "  <Root>",
+    "    <Group>",
+    `      <UUID>${crypto.randomBytes(16).toString("base64")}</UUID>`,
+    "      <Name>gmana</Name>",
+    ...entries,
+    "    </Group>",
+    "  </Root>",
+    "</KeePassFile>",
+    "",
+  ].join("\n");
+}
+
+// 1Password CSV
+
+const ONE_PASSWORD_COLUMNS = ["Title", "Url", "Username", "Password", "OTPAuth", "Favorite", "Archived", "Tags", "Notes"];
+
+const OnePasswordRowSchema = z.object({
+  title: z.string().default(""),
+  url: z.string().default(""),
+  username: z.string().default(""),
+  password: z.string().default(""),
+  tags: z.string().default(""),
+  notes: z.string().default(""),
+});
+
+function readOnePassword(text: string): ParsedExport {
+  return readCsvItems(text, OnePasswordRowSchema, ["title", "password"], (row) => ({
+    name: row.title,
+    url: row.url,
+    username: row.username,
+    password: row.password,
+    notes: row.notes,
+    tags: splitTags(row.tags),
+  }));
+}
+
+function writeOnePassword(items: PortableItem[]): string {
+  const rows = items.map((item) => formatCsvRow([item.name, item.url ?? "", item.username ?? "", item.password, "", "false", "false", item.tags.join(","), item.notes ?? ""]));
+  return [formatCsvRow(ONE_PASSWORD_COLUMNS), ...rows].join("\n") + "\n";
+}
+
+// Chrome / Chromium CSV
+
+const ChromeRowSchema = z.object({
+  name: z.string().default(""),
+  url: z.string().default(""),
+  username: z.string().default(""),
+  password: z.string().default(""),
+  note: z.string().default(""),
+});
+
+function readChrome(text: string): ParsedExport {
+  return readCsvItems(text, ChromeRowSchema, ["url", "username", "password"], (row) => ({
+    name: row.name,
+    url: row.url,
+    username: row.username,
+    password: row.password,
+    notes: row.note,
+    tags: [],
+  }));
+}
+
+function writeChrome(items: PortableItem[]): string {
+  const rows = items.map((item) => formatCsvRow([item.name, item.url ?? "", item.username ?? "", item.password, item.notes ?? ""]));
+  return [formatCsvRow(["name", "url", "username", "password", "note"]), ...rows].join("\n") + "\n";
+}
+
+function readCsvItems<S extends z.ZodTypeAny>(text: string, schema: S, requiredColumns: string[], toItem: (row: z.infer<S>) => PortableItem): ParsedExport {
+  const records = parseCsvRecords(text);
+  const columns = Object.keys(records[0] ?? {});
+  const missing = requiredColumns.filter((column) => !columns.includes(column));
+
+  if (records.length > 0 && missing.length > 0) {
+    throw new ValidationError(`CSV is missing the ${missing.join(", ")} column${missing.length === 1 ? "" : "s"}`);
+  }
+
+  const items: PortableItem[] = [];
+  const skipped: string[] = [];
+
+  records.forEach((record, index) => {
+    const row = schema.safeParse(record);
+    if (!row.success) {
+      skipped.push(`row ${index + 2}: ${row.error.issues[0].message}`);
+      return;
+    }
+
+    const item = toItem(row.data);
+    const name = item.name || hostnameOf(item.url) || `row ${index + 2}`;
+
+    if (!item.password) {
+      skipped.push(`${name}: no password`);
+      return;
+    }
+
+    items.push({
+      ...item,
+      name,
+      url: item.url || undefined,
+      username: item.username || undefined,
+      notes: item.notes || undefined,
+    });
+  });
+
+  return { items, history: [], skipped };
+}
+
+// Helpers
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError("File is not valid JSON");
+  }
+}
+
+function validate<S extends z.ZodTypeAny>(schema: S, value: unknown, description: string): z.infer<S> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ValidationError(`Invalid ${description}: ${issue.path.join(".") || "file"} ${issue.message.toLowerCase()}`);
+  }
+  return result.data;
+}
+
+function splitTags(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(/[;,]/)
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  ];
+}
+
+function hostnameOf(url: string | null | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function validDate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { filterHistory, inferHistoryOptions, type HistoryEntry } from "./history.js";
+
+const entry = (password: string): HistoryEntry => ({
+  id: crypto.randomUUID(),
+  password,
+  options: inferHistoryOptions(password),
+  createdAt: "2024-05-01T07:00:00.000Z",
+});
+
+describe("filterHistory", () => {
+  const history = ["Xk9#mP2$vLq7", "🔑é🎉Ab3$xY9!z", "short"].map(entry);
+
+  it("measures length in characters, not UTF-16 code units", () => {
+    expect(filterHistory(history, { minLength: 12, maxLength: 12 }).map((match) => match.password)).toEqual(["Xk9#mP2$vLq7", "🔑é🎉Ab3$xY9!z"]);
+  });
+
+  it("keeps only entries inside the length bounds", () => {
+    expect(filterHistory(history, { maxLength: 11 }).map((match) => match.password)).toEqual(["short"]);
+  });
+});
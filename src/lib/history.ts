@@ -2,9 +2,15 @@ import fs from "fs-extra";
 import os from "node:os";
 import path from "node:path";
 import { z } from "zod";
-import type { PasswordOptions } from "./password-generator.js";
+import { splitGraphemes } from "./charset.js";
+import { loadConfig } from "./config.js";
+import { NotFoundError, ValidationError } from "./errors.js";
+import { PassphraseOptionsSchema } from "./passphrase-generator.js";
+import { PasswordGenerator, type PasswordOptions } from "./password-generator.js";
+import { migratePlaintextFile, readSecureJson, writeSecureJson } from "./secure-store.js";
+import { TOKEN_FORMATS, type TokenFormat } from "./token.js";
 
-const HistoryEntrySchema = z.object({
+export const HistoryEntrySchema = z.object({
   id: z.string(),
   password: z.string(),
   options: z.object({
@@ -14,6 +20,13 @@ const HistoryEntrySchema = z.object({
     includeNumbers: z.boolean(),
     includeSymbols: z.boolean(),
     includeExtraSymbols: z.boolean(),
+    passphrase: PassphraseOptionsSchema.optional(),
+    pronounceable: z.boolean().optional(),
+    pattern: z.string().optional(),
+    rules: z.string().optional(),
+    /** Every character the password could contain, when a custom charset, --include or --exclude was used */
+    charset: z.string().optional(),
+    token: z.enum(TOKEN_FORMATS).optional(),
   }),
   createdAt: z.string(),
 });
@@ -22,46 +35,191 @@ const HistorySchema = z.array(HistoryEntrySchema);
 
 export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
 
+export const HISTORY_KINDS = ["password", "passphrase", "pronounceable", "pattern", "rules", "token"] as const;
+
+export type HistoryKind = (typeof HISTORY_KINDS)[number];
+
+export const HISTORY_CLASSES = ["upper", "lower", "numbers", "symbols", "extra"] as const;
+
+export type HistoryClass = (typeof HISTORY_CLASSES)[number];
+
+export interface HistoryFilter {
+  /** Case-insensitive text found in the password, pattern or rules */
+  search?: string;
+  since?: Date;
+  until?: Date;
+  kind?: HistoryKind;
+  minLength?: number;
+  maxLength?: number;
+  /** Character classes the entry must have been generated with */
+  withClasses?: HistoryClass[];
+  /** Character classes the entry must have been generated without */
+  withoutClasses?: HistoryClass[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 const CONFIG_DIR = path.join(os.homedir(), ".gmana");
 const HISTORY_FILE = path.join(CONFIG_DIR, "history.json");
 
 export async function saveToHistory(password: string, options: PasswordOptions): Promise<void> {
-  await fs.ensureDir(CONFIG_DIR);
+  const random = !options.passphrase && !options.pattern && !options.rules && !options.pronounceable;
+  const charset = random && (options.customChars || options.includeChars || options.excludeChars) ? PasswordGenerator.effectiveCharset(options).join("") : undefined;
+  // A custom charset replaces the classes, so record the classes it actually covers
+  const has = (pattern: RegExp) => (options.customChars && charset !== undefined ? pattern.test(charset) : undefined);
 
-  const history = await loadHistory();
-  const entry: HistoryEntry = {
-    id: crypto.randomUUID(),
-    password,
-    options: {
-      length: options.length,
-      includeUppercase: options.includeUppercase,
-      includeLowercase: options.includeLowercase,
-      includeNumbers: options.includeNumbers,
-      includeSymbols: options.includeSymbols,
-      includeExtraSymbols: options.includeExtraSymbols,
-    },
-    createdAt: new Date().toISOString(),
-  };
+  await appendHistoryEntry(password, {
+    length: options.length,
+    includeUppercase: has(/[A-Z]/) ?? options.includeUppercase,
+    includeLowercase: has(/[a-z]/) ?? options.includeLowercase,
+    includeNumbers: has(/[0-9]/) ?? options.includeNumbers,
+    includeSymbols: has(/[^A-Za-z0-9]/) ?? options.includeSymbols,
+    includeExtraSymbols: options.customChars ? false : options.includeExtraSymbols,
+    passphrase: options.passphrase,
+    pronounceable: options.pronounceable || undefined,
+    pattern: options.pattern,
+    rules: options.rules,
+    charset,
+  });
+}
 
-  history.unshift(entry);
+/** Options for a password whose generation settings weren't recorded, read from the characters it contains */
+export function inferHistoryOptions(password: string): HistoryEntry["options"] {
+  return {
+    length: splitGraphemes(password).length,
+    includeUppercase: /[A-Z]/.test(password),
+    includeLowercase: /[a-z]/.test(password),
+    includeNumbers: /[0-9]/.test(password),
+    includeSymbols: /[^A-Za-z0-9]/.test(password),
+    includeExtraSymbols: false,
+  };
+}
 
-  // Keep only the latest 100 entries
-  const limitedHistory = history.slice(0, 100);
+/** Number of distinct characters in a stored charset */
+export function charsetSize(charset: string): number {
+  return splitGraphemes(charset).length;
+}
 
-  await fs.writeJson(HISTORY_FILE, limitedHistory, { spaces: 2 });
+export async function saveTokenToHistory(token: string, format: TokenFormat): Promise<void> {
+  // Tokens have no character-class options; the format says what they are
+  await appendHistoryEntry(token, {
+    length: token.length,
+    includeUppercase: false,
+    includeLowercase: false,
+    includeNumbers: false,
+    includeSymbols: false,
+    includeExtraSymbols: false,
+    token: format,
+  });
 }
 
 export async function loadHistory(): Promise<HistoryEntry[]> {
-  try {
-    if (await fs.pathExists(HISTORY_FILE)) {
-      const rawHistory = await fs.readJson(HISTORY_FILE);
-      return HistorySchema.parse(rawHistory);
-    }
-  } catch {
-    // Return empty array if history file is invalid
+  return readSecureJson(HISTORY_FILE, HistorySchema, []);
+}
+
+export async function hasHistory(): Promise<boolean> {
+  return fs.pathExists(HISTORY_FILE);
+}
+
+export async function migrateHistory(key: Buffer): Promise<boolean> {
+  return migratePlaintextFile(HISTORY_FILE, key);
+}
+
+/**
+ * Merges entries from an import, newest first. Entries whose id is already
+ * present are skipped; retention still applies.
+ */
+export async function importHistoryEntries(entries: HistoryEntry[]): Promise<number> {
+  const history = await loadHistory();
+  const known = new Set(history.map((entry) => entry.id));
+  const added = entries.filter((entry) => !known.has(entry.id));
+
+  await writeHistory([...history, ...added].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  return added.length;
+}
+
+/** Removes one entry by id or unique id prefix, returning it */
+export async function removeHistoryEntry(id: string): Promise<HistoryEntry> {
+  const history = await loadHistory();
+  const matches = history.filter((entry) => entry.id.startsWith(id.toLowerCase()));
+
+  if (matches.length === 0) {
+    throw new NotFoundError(`No history entry with id ${id}`);
+  }
+
+  if (matches.length > 1) {
+    throw new ValidationError(`Id ${id} matches ${matches.length} entries; use more characters`);
+  }
+
+  await writeHistory(history.filter((entry) => entry !== matches[0]));
+  return matches[0];
+}
+
+export function filterHistory(history: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const search = filter.search?.toLowerCase();
+
+  return history.filter((entry) => {
+    const createdAt = new Date(entry.createdAt);
+    const { options } = entry;
+    const length = splitGraphemes(entry.password).length;
+
+    if (search && ![entry.password, options.pattern, options.rules].some((field) => field?.toLowerCase().includes(search))) return false;
+    if (filter.since && createdAt < filter.since) return false;
+    if (filter.until && createdAt > filter.until) return false;
+    if (filter.kind && historyKind(entry) !== filter.kind) return false;
+    if (filter.minLength !== undefined && length < filter.minLength) return false;
+    if (filter.maxLength !== undefined && length > filter.maxLength) return false;
+    // Class flags are only meaningful for class-based passwords
+    if ((filter.withClasses || filter.withoutClasses) && historyKind(entry) !== "password") return false;
+    if (filter.withClasses?.some((name) => !usesClass(entry, name))) return false;
+    if (filter.withoutClasses?.some((name) => usesClass(entry, name))) return false;
+
+    return true;
+  });
+}
+
+export function historyKind(entry: HistoryEntry): HistoryKind {
+  if (entry.options.token) return "token";
+  if (entry.options.passphrase) return "passphrase";
+  if (entry.options.pronounceable) return "pronounceable";
+  if (entry.options.pattern) return "pattern";
+  if (entry.options.rules) return "rules";
+  return "password";
+}
+
+function usesClass(entry: HistoryEntry, name: HistoryClass): boolean {
+  const { options } = entry;
+  switch (name) {
+    case "upper":
+      return options.includeUppercase;
+    case "lower":
+      return options.includeLowercase;
+    case "numbers":
+      return options.includeNumbers;
+    case "symbols":
+      return options.includeSymbols;
+    case "extra":
+      return options.includeExtraSymbols;
   }
+}
+
+async function appendHistoryEntry(password: string, options: HistoryEntry["options"]): Promise<void> {
+  const history = await loadHistory();
+  history.unshift({ id: crypto.randomUUID(), password, options, createdAt: new Date().toISOString() });
+  await writeHistory(history);
+}
+
+/**
+ * Every write goes through here so the retention settings (`historyLimit`
+ * entries, `historyMaxAgeDays` days) are applied whenever history changes.
+ */
+async function writeHistory(history: HistoryEntry[]): Promise<void> {
+  const config = await loadConfig();
+  const cutoff = config.historyMaxAgeDays > 0 ? Date.now() - config.historyMaxAgeDays * DAY_MS : -Infinity;
+
+  const retained = history.filter((entry) => new Date(entry.createdAt).getTime() >= cutoff).slice(0, config.historyLimit);
 
-  return [];
+  await writeSecureJson(HISTORY_FILE, retained);
 }
 
 export async function clearHistory(): Promise<void> {
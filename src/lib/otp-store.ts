@@ -0,0 +1,77 @@
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { NotFoundError, ValidationError } from "./errors.js";
+import { OtpParamsSchema, type OtpParams } from "./otp.js";
+import { readSecureJson, writeSecureJson } from "./secure-store.js";
+
+const OtpAccountSchema = OtpParamsSchema.extend({
+  name: z.string(),
+  createdAt: z.string(),
+});
+
+const OtpAccountsSchema = z.array(OtpAccountSchema);
+
+export type OtpAccount = z.infer<typeof OtpAccountSchema>;
+
+const CONFIG_DIR = path.join(os.homedir(), ".gmana");
+const OTP_FILE = path.join(CONFIG_DIR, "otp.json");
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_.@-]{0,63}$/i;
+
+export async function loadOtpAccounts(): Promise<OtpAccount[]> {
+  return readSecureJson(OTP_FILE, OtpAccountsSchema, []);
+}
+
+export async function findOtpAccount(name: string): Promise<OtpAccount> {
+  const account = (await loadOtpAccounts()).find((entry) => entry.name.toLowerCase() === name.toLowerCase());
+
+  if (!account) {
+    throw new NotFoundError(`No OTP account named "${name}". Run \`gmana otp list\` to see saved accounts`);
+  }
+
+  return account;
+}
+
+export async function addOtpAccount(name: string, params: OtpParams): Promise<OtpAccount> {
+  if (!NAME_PATTERN.test(name)) {
+    throw new ValidationError("Account names must start with a letter or digit and contain only letters, digits, '.', '@', '-' or '_' (max 64)");
+  }
+
+  const accounts = await loadOtpAccounts();
+  if (accounts.some((entry) => entry.name.toLowerCase() === name.toLowerCase())) {
+    throw new ValidationError(`An OTP account named "${name}" already exists`);
+  }
+
+  const account: OtpAccount = { ...params, name, createdAt: new Date().toISOString() };
+  await writeSecureJson(OTP_FILE, [...accounts, account]);
+  return account;
+}
+
+export async function updateOtpAccount(account: OtpAccount): Promise<void> {
+  const accounts = await loadOtpAccounts();
+  await writeSecureJson(
+    OTP_FILE,
+    accounts.map((entry) => (entry.name === account.name ? account : entry)),
+  );
+}
+
+export async function removeOtpAccount(name: string): Promise<void> {
+  const account = await findOtpAccount(name);
+  const accounts = await loadOtpAccounts();
+  await writeSecureJson(
+    OTP_FILE,
+    accounts.filter((entry) => entry.name !== account.name),
+  );
+}
+
+/** Turns an issuer or account label into a usable account name, e.g. "GitHub" → "github" */
+export function suggestOtpName(params: Pick<OtpParams, "issuer" | "account">): string | undefined {
+  const source = params.issuer || params.account;
+  const name = source
+    ?.toLowerCase()
+    .replace(/[^a-z0-9_.@-]+/g, "-")
+    .replace(/^[^a-z0-9]+|-+$/g, "")
+    .slice(0, 64);
+  return name || undefined;
+}
@@ -0,0 +1,145 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+import { ValidationError } from "./errors.js";
+
+/**
+ * One-time codes per RFC 4226 (HOTP) and RFC 6238 (TOTP), plus the pieces
+ * needed to read the secrets sites hand out: RFC 4648 base32 and the
+ * `otpauth://` URI format used in QR codes.
+ */
+
+export const OTP_ALGORITHMS = ["SHA1", "SHA256", "SHA512"] as const;
+
+export const OtpParamsSchema = z.object({
+  type: z.enum(["totp", "hotp"]).default("totp"),
+  secret: z.string().min(1),
+  algorithm: z.enum(OTP_ALGORITHMS).default("SHA1"),
+  digits: z.number().int().min(6).max(8).default(6),
+  period: z.number().int().min(1).max(300).default(30),
+  counter: z.number().int().min(0).default(0),
+  issuer: z.string().optional(),
+  account: z.string().optional(),
+});
+
+export type OtpParams = z.infer<typeof OtpParamsSchema>;
+
+export interface OtpCode {
+  code: string;
+  /** Seconds until a TOTP code rolls over; undefined for HOTP */
+  remainingSeconds?: number;
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function decodeBase32(input: string): Buffer {
+  const cleaned = input.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new ValidationError(`Invalid base32 character "${char}" in secret`);
+    }
+
+    buffer = (buffer << 5) | value;
+    bits += 5;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  if (bytes.length === 0) {
+    throw new ValidationError("Secret is empty");
+  }
+
+  return Buffer.from(bytes);
+}
+
+/** Normalizes a secret to unpadded upper-case base32, validating it on the way */
+export function normalizeSecret(secret: string): string {
+  decodeBase32(secret);
+  return secret.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+}
+
+export function generateHotp(params: Pick<OtpParams, "secret" | "algorithm" | "digits">, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac(params.algorithm.toLowerCase(), decodeBase32(params.secret)).update(message).digest();
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+
+  return (binary % 10 ** params.digits).toString().padStart(params.digits, "0");
+}
+
+export function generateTotp(params: Pick<OtpParams, "secret" | "algorithm" | "digits" | "period">, now = Date.now()): OtpCode {
+  const seconds = Math.floor(now / 1000);
+  const counter = Math.floor(seconds / params.period);
+
+  return {
+    code: generateHotp(params, counter),
+    remainingSeconds: params.period - (seconds % params.period),
+  };
+}
+
+/**
+ * Parses `otpauth://totp/Issuer:account?secret=...&issuer=...&digits=6&period=30&algorithm=SHA1`
+ * (https://github.com/google/google-authenticator/wiki/Key-Uri-Format).
+ */
+export function parseOtpauthUri(uri: string): OtpParams {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new ValidationError("Invalid otpauth:// URI");
+  }
+
+  if (url.protocol !== "otpauth:") {
+    throw new ValidationError("URI must start with otpauth://");
+  }
+
+  const type = url.hostname.toLowerCase();
+  if (type !== "totp" && type !== "hotp") {
+    throw new ValidationError(`Unsupported OTP type "${url.hostname}"`);
+  }
+
+  const secret = url.searchParams.get("secret");
+  if (!secret) {
+    throw new ValidationError("otpauth:// URI has no secret");
+  }
+
+  const label = decodeURIComponent(url.pathname.replace(/^\//, ""));
+  const [labelIssuer, account] = label.includes(":") ? label.split(/:(.*)/s, 2).map((part) => part.trim()) : [undefined, label.trim()];
+  const number = (name: string) => {
+    const value = url.searchParams.get(name);
+    return value === null ? undefined : Number(value);
+  };
+
+  if (type === "hotp" && url.searchParams.get("counter") === null) {
+    throw new ValidationError("HOTP URIs need a counter parameter");
+  }
+
+  const result = OtpParamsSchema.safeParse({
+    type,
+    secret: normalizeSecret(secret),
+    algorithm: url.searchParams.get("algorithm")?.toUpperCase() ?? undefined,
+    digits: number("digits"),
+    period: number("period"),
+    counter: number("counter"),
+    issuer: url.searchParams.get("issuer") ?? labelIssuer ?? undefined,
+    account: account || undefined,
+  });
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ValidationError(`Invalid ${issue.path.join(".")} in otpauth:// URI: ${issue.message}`);
+  }
+
+  return result.data;
+}
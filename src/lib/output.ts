@@ -0,0 +1,26 @@
+/**
+ * Global output mode. `--json` and `--quiet` make commands print structured or
+ * bare results on stdout; either one, a piped stdout or NO_COLOR also turns off
+ * the spinner and other terminal-only decoration. Colors follow the same rules
+ * through colorette, which checks NO_COLOR and the TTY itself.
+ */
+
+export type OutputMode = "text" | "json" | "quiet";
+
+let outputMode: OutputMode = "text";
+
+export function setOutputMode(options: { json?: boolean; quiet?: boolean }): void {
+  outputMode = options.json ? "json" : options.quiet ? "quiet" : "text";
+}
+
+export function getOutputMode(): OutputMode {
+  return outputMode;
+}
+
+export function isPlainOutput(): boolean {
+  return outputMode !== "text" || !process.stdout.isTTY || "NO_COLOR" in process.env;
+}
+
+export function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + "\n");
+}
@@ -1,5 +1,11 @@
-import crypto from "node:crypto";
 import { z } from "zod";
+import { uniqueGraphemes } from "./charset.js";
+import { ValidationError } from "./errors.js";
+import { PassphraseGenerator, PassphraseOptionsSchema } from "./passphrase-generator.js";
+import { parsePasswordRulesStrict, resolvePolicyLength, type PasswordPolicy } from "./password-rules.js";
+import { calculatePatternEntropy, generateFromPattern } from "./pattern.js";
+import { PronounceableGenerator } from "./pronounceable.js";
+import { randomBigInt, systemRandom, type RandomSource } from "./random.js";
 
 export const PasswordOptionsSchema = z.object({
   length: z.number().int().min(4).max(128).default(12),
@@ -10,12 +16,32 @@ export const PasswordOptionsSchema = z.object({
   includeExtraSymbols: z.boolean().default(false),
   excludeSimilar: z.boolean().default(false),
   excludeAmbiguous: z.boolean().default(false),
+  /** Draw from exactly these characters instead of the character classes */
   customChars: z.string().optional(),
+  /** Extra characters added to the classes or customChars */
+  includeChars: z.string().optional(),
+  /** Characters never used, whichever charset is in effect */
+  excludeChars: z.string().optional(),
   pattern: z.string().optional(),
+  passphrase: PassphraseOptionsSchema.optional(),
+  pronounceable: z.boolean().default(false),
+  minUppercase: z.number().int().min(0).max(128).optional(),
+  minLowercase: z.number().int().min(0).max(128).optional(),
+  minNumbers: z.number().int().min(0).max(128).optional(),
+  minSymbols: z.number().int().min(0).max(128).optional(),
+  requireEachClass: z.boolean().default(true),
+  rules: z.string().optional(),
 });
 
 export type PasswordOptions = z.infer<typeof PasswordOptionsSchema>;
 
+export interface CharacterClass {
+  name: "lowercase" | "uppercase" | "numbers" | "symbols" | "custom";
+  /** One grapheme per element, so emoji and other multi-unit characters stay whole */
+  chars: string[];
+  min: number;
+}
+
 export class PasswordGenerator {
   private static readonly LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
   private static readonly UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
@@ -25,104 +51,298 @@ export class PasswordGenerator {
   private static readonly SIMILAR_CHARS = "il1Lo0O";
   private static readonly AMBIGUOUS_CHARS = "{}[]()/\\'\"`~,;.<>";
 
-  static generate(options: PasswordOptions): string {
+  /** `random` is only replaced by `derive`, which needs the same output for the same seed */
+  static generate(options: PasswordOptions, random: RandomSource = systemRandom): string {
+    const validatedOptions = PasswordOptionsSchema.parse(options);
+
+    if (validatedOptions.passphrase) {
+      return PassphraseGenerator.generate(validatedOptions.passphrase, random);
+    }
+
+    if (validatedOptions.pattern) {
+      return generateFromPattern(validatedOptions.pattern, random);
+    }
+
+    if (validatedOptions.rules) {
+      return this.generateFromPolicy(parsePasswordRulesStrict(validatedOptions.rules), validatedOptions.length, random);
+    }
+
+    if (validatedOptions.pronounceable) {
+      return PronounceableGenerator.generate(validatedOptions, random);
+    }
+
+    if (validatedOptions.customChars) {
+      return this.generateSecurePassword(this.effectiveCharset(validatedOptions), validatedOptions.length, random);
+    }
+
+    const classes = this.buildCharacterClasses(validatedOptions);
+
+    if (classes.every(({ min }) => min === 0)) {
+      return this.generateSecurePassword(classes.flatMap(({ chars }) => chars), validatedOptions.length, random);
+    }
+
+    return this.generateWithMinimums(classes, validatedOptions.length, random);
+  }
+
+  /**
+   * Bits of entropy in the generation process (log2 of the number of equally
+   * likely outputs), as opposed to the estimated strength of one result.
+   */
+  static calculateEntropy(options: PasswordOptions): number {
     const validatedOptions = PasswordOptionsSchema.parse(options);
 
+    if (validatedOptions.passphrase) {
+      return PassphraseGenerator.calculateEntropy(validatedOptions.passphrase).totalBits;
+    }
+
+    if (validatedOptions.pattern) {
+      return calculatePatternEntropy(validatedOptions.pattern);
+    }
+
+    if (validatedOptions.rules) {
+      const policy = parsePasswordRulesStrict(validatedOptions.rules);
+      const length = resolvePolicyLength(policy, validatedOptions.length);
+      // Upper bound: required classes remove some of these candidates
+      return this.log2(this.countRunLimited(policy, length).total);
+    }
+
+    if (validatedOptions.pronounceable) {
+      return PronounceableGenerator.calculateEntropy(validatedOptions);
+    }
+
     if (validatedOptions.customChars) {
-      return this.generateFromCustomChars(validatedOptions.customChars, validatedOptions.length);
+      return Math.log2(this.effectiveCharset(validatedOptions).length) * validatedOptions.length;
     }
 
-    const charset = this.buildCharset(validatedOptions);
+    const classes = this.buildCharacterClasses(validatedOptions);
+    return this.log2(this.countPasswords(classes, validatedOptions.length)[0][validatedOptions.length]);
+  }
+
+  /**
+   * Every character a random-character password can contain, after includes
+   * and exclusions. Throws when nothing usable is left.
+   */
+  static effectiveCharset(options: PasswordOptions): string[] {
+    const validatedOptions = PasswordOptionsSchema.parse(options);
+
+    if (!validatedOptions.customChars) {
+      return this.buildCharacterClasses(validatedOptions).flatMap(({ chars }) => chars);
+    }
 
-    if (charset.length === 0) {
-      throw new Error("No character types selected for password generation");
+    const charset = this.applyExclusions(uniqueGraphemes(validatedOptions.customChars + (validatedOptions.includeChars ?? "")), validatedOptions);
+    if (charset.length < 2) {
+      throw new ValidationError(`The charset needs at least 2 distinct characters after exclusions, got ${charset.length}`);
     }
 
-    return this.generateSecurePassword(charset, validatedOptions.length);
+    return charset;
   }
 
-  private static buildCharset(options: PasswordOptions): string {
-    let charset = "";
+  /**
+   * Resolves the selected character classes and their effective minimum
+   * counts, throwing if the combination can't be satisfied.
+   */
+  static buildCharacterClasses(options: PasswordOptions): CharacterClass[] {
+    const validatedOptions = PasswordOptionsSchema.parse(options);
+    const candidates: (CharacterClass & { included: boolean })[] = [
+      { name: "lowercase", chars: [...this.LOWERCASE], min: validatedOptions.minLowercase ?? 0, included: validatedOptions.includeLowercase },
+      { name: "uppercase", chars: [...this.UPPERCASE], min: validatedOptions.minUppercase ?? 0, included: validatedOptions.includeUppercase },
+      { name: "numbers", chars: [...this.NUMBERS], min: validatedOptions.minNumbers ?? 0, included: validatedOptions.includeNumbers },
+      {
+        name: "symbols",
+        chars: [...(validatedOptions.includeSymbols ? this.SYMBOLS : ""), ...(validatedOptions.includeExtraSymbols ? this.EXTRA_SYMBOLS : "")],
+        min: validatedOptions.minSymbols ?? 0,
+        included: validatedOptions.includeSymbols || validatedOptions.includeExtraSymbols,
+      },
+    ];
+
+    const classes: CharacterClass[] = [];
+
+    for (const candidate of candidates) {
+      const chars = this.applyExclusions(candidate.included ? candidate.chars : [], validatedOptions);
+
+      if (chars.length === 0) {
+        if (candidate.min > 0) {
+          throw new ValidationError(`Cannot require ${candidate.min} ${candidate.name} when ${candidate.name} are excluded`);
+        }
+        continue;
+      }
+
+      classes.push({ name: candidate.name, chars, min: validatedOptions.requireEachClass ? Math.max(candidate.min, 1) : candidate.min });
+    }
+
+    // Included characters join the pool without a minimum of their own
+    if (validatedOptions.includeChars) {
+      const taken = new Set(classes.flatMap(({ chars }) => chars));
+      const extra = this.applyExclusions(uniqueGraphemes(validatedOptions.includeChars), validatedOptions).filter((char) => !taken.has(char));
+      if (extra.length > 0) {
+        classes.push({ name: "custom", chars: extra, min: 0 });
+      }
+    }
+
+    if (classes.length === 0) {
+      throw new ValidationError("No character types selected for password generation");
+    }
+
+    const totalMin = classes.reduce((sum, { min }) => sum + min, 0);
+    if (totalMin > validatedOptions.length) {
+      const breakdown = classes
+        .filter(({ min }) => min > 0)
+        .map(({ name, min }) => `${min} ${name}`)
+        .join(" + ");
+      throw new ValidationError(`Minimum character counts (${breakdown} = ${totalMin}) exceed the password length of ${validatedOptions.length}`);
+    }
+
+    return classes;
+  }
 
-    if (options.includeLowercase) charset += this.LOWERCASE;
-    if (options.includeUppercase) charset += this.UPPERCASE;
-    if (options.includeNumbers) charset += this.NUMBERS;
-    if (options.includeSymbols) charset += this.SYMBOLS;
-    if (options.includeExtraSymbols) charset += this.EXTRA_SYMBOLS;
+  private static applyExclusions(chars: string[], options: PasswordOptions): string[] {
+    let charset = chars;
 
     if (options.excludeSimilar) {
-      charset = charset
-        .split("")
-        .filter((char) => !this.SIMILAR_CHARS.includes(char))
-        .join("");
+      charset = charset.filter((char) => !this.SIMILAR_CHARS.includes(char));
     }
 
     if (options.excludeAmbiguous) {
-      charset = charset
-        .split("")
-        .filter((char) => !this.AMBIGUOUS_CHARS.includes(char))
-        .join("");
+      charset = charset.filter((char) => !this.AMBIGUOUS_CHARS.includes(char));
+    }
+
+    if (options.excludeChars) {
+      const excluded = new Set(uniqueGraphemes(options.excludeChars));
+      charset = charset.filter((char) => !excluded.has(char));
     }
 
     return charset;
   }
 
-  private static generateSecurePassword(charset: string, length: number): string {
-    const password = new Array(length);
-    const charsetLength = charset.length;
+  /**
+   * Samples uniformly from every password of the given length that meets the
+   * per-class minimums. Class counts are drawn with probability proportional
+   * to the number of passwords having them, then shuffled into positions, so
+   * no valid password is more likely than another.
+   */
+  private static generateWithMinimums(classes: CharacterClass[], length: number, random: RandomSource): string {
+    const ways = this.countPasswords(classes, length);
+    const labels: number[] = [];
+    let remaining = length;
 
-    for (let i = 0; i < length; i++) {
-      const randomIndex = crypto.randomInt(0, charsetLength);
-      password[i] = charset[randomIndex];
+    classes.forEach((characterClass, i) => {
+      let target = randomBigInt(ways[i][remaining], random);
+      let count = characterClass.min;
+
+      for (; count <= remaining; count++) {
+        const weight = this.binomial(remaining, count) * BigInt(characterClass.chars.length) ** BigInt(count) * ways[i + 1][remaining - count];
+        if (target < weight) break;
+        target -= weight;
+      }
+
+      labels.push(...new Array<number>(count).fill(i));
+      remaining -= count;
+    });
+
+    for (let i = labels.length - 1; i > 0; i--) {
+      const j = random.randomInt(0, i + 1);
+      [labels[i], labels[j]] = [labels[j], labels[i]];
     }
 
-    return password.join("");
+    return labels.map((label) => classes[label].chars[random.randomInt(0, classes[label].chars.length)]).join("");
   }
 
-  private static generateFromCustomChars(customChars: string, length: number): string {
-    return this.generateSecurePassword(customChars, length);
-  }
+  /**
+   * Generates a password satisfying a site's password rules. Candidates are
+   * drawn uniformly from all strings that respect max-consecutive, then
+   * rejected until every required class is present, which keeps the result
+   * uniform over the strings that satisfy the whole policy.
+   */
+  static generateFromPolicy(policy: PasswordPolicy, requestedLength: number, random: RandomSource = systemRandom): string {
+    const length = resolvePolicyLength(policy, requestedLength);
+    const alphabet = policy.allowed;
+    const { completions, maxRun, total } = this.countRunLimited(policy, length);
+
+    if (total === 0n) {
+      throw new ValidationError("No password can satisfy these rules");
+    }
+
+    for (let attempt = 0; attempt < 10_000; attempt++) {
+      const chars = [alphabet[random.randomInt(0, alphabet.length)]];
+      let run = 1;
+
+      for (let remaining = length - 1; remaining > 0; remaining--) {
+        const repeatWeight = run < maxRun ? completions[remaining - 1][run + 1] : 0n;
+        const changeWeight = BigInt(alphabet.length - 1) * completions[remaining - 1][1];
+        const last = chars[chars.length - 1];
 
-  static calculateStrength(password: string): {
-    score: number;
-    level: "Very Weak" | "Weak" | "Fair" | "Good" | "Strong" | "Very Strong";
-    feedback: string[];
-  } {
-    let score = 0;
-    const feedback: string[] = [];
+        if (randomBigInt(repeatWeight + changeWeight, random) < repeatWeight) {
+          chars.push(last);
+          run++;
+        } else {
+          const others = alphabet.replace(last, "");
+          chars.push(others[random.randomInt(0, others.length)]);
+          run = 1;
+        }
+      }
+
+      if (policy.requiredSets.every((set) => chars.some((char) => set.includes(char)))) {
+        return chars.join("");
+      }
+    }
 
-    // Length scoring
-    if (password.length >= 12) score += 25;
-    else if (password.length >= 8) score += 15;
-    else if (password.length >= 6) score += 10;
-    else feedback.push("Password should be at least 8 characters long");
+    throw new ValidationError("Couldn't satisfy the password rules; the required classes are too rare in the allowed alphabet");
+  }
 
-    // Character variety scoring
-    if (/[a-z]/.test(password)) score += 15;
-    else feedback.push("Add lowercase letters");
+  /** completions[m][r]: ways to add m more characters when the current run has length r */
+  private static countRunLimited(policy: PasswordPolicy, length: number): { completions: bigint[][]; maxRun: number; total: bigint } {
+    const size = BigInt(policy.allowed.length);
+    const maxRun = Math.min(policy.maxConsecutive ?? length, length);
+    const completions: bigint[][] = Array.from({ length }, () => new Array<bigint>(maxRun + 2).fill(0n));
 
-    if (/[A-Z]/.test(password)) score += 15;
-    else feedback.push("Add uppercase letters");
+    for (let m = 0; m < length; m++) {
+      for (let run = 1; run <= maxRun; run++) {
+        completions[m][run] = m === 0 ? 1n : (size - 1n) * completions[m - 1][1] + (run < maxRun ? completions[m - 1][run + 1] : 0n);
+      }
+    }
 
-    if (/\d/.test(password)) score += 15;
-    else feedback.push("Add numbers");
+    return { completions, maxRun, total: size * completions[length - 1][1] };
+  }
 
-    if (/[!@#$%^&*()_+\-=[\]{}|;:,.<>?]/.test(password)) score += 20;
-    else feedback.push("Add special characters");
+  /** ways[i][n]: number of length-n strings over classes i.. that satisfy their minimums */
+  private static countPasswords(classes: CharacterClass[], length: number): bigint[][] {
+    const ways: bigint[][] = Array.from({ length: classes.length + 1 }, () => new Array<bigint>(length + 1).fill(0n));
+    ways[classes.length][0] = 1n;
 
-    // Pattern penalties
-    if (/(.)\1{2,}/.test(password)) {
-      score -= 10;
-      feedback.push("Avoid repeating characters");
+    for (let i = classes.length - 1; i >= 0; i--) {
+      for (let n = 0; n <= length; n++) {
+        for (let count = classes[i].min; count <= n; count++) {
+          ways[i][n] += this.binomial(n, count) * BigInt(classes[i].chars.length) ** BigInt(count) * ways[i + 1][n - count];
+        }
+      }
     }
 
-    if (/123|abc|qwe/i.test(password)) {
-      score -= 15;
-      feedback.push("Avoid common sequences");
+    return ways;
+  }
+
+  private static log2(value: bigint): number {
+    const bits = value.toString(2).length;
+    const shift = Math.max(0, bits - 53);
+    return Math.log2(Number(value >> BigInt(shift))) + shift;
+  }
+
+  private static binomial(n: number, k: number): bigint {
+    let result = 1n;
+    for (let i = 1; i <= k; i++) {
+      result = (result * BigInt(n - k + i)) / BigInt(i);
     }
+    return result;
+  }
+
+  private static generateSecurePassword(charset: string[], length: number, random: RandomSource): string {
+    const password = new Array(length);
+    const charsetLength = charset.length;
 
-    const level = score >= 90 ? "Very Strong" : score >= 75 ? "Strong" : score >= 60 ? "Good" : score >= 40 ? "Fair" : score >= 20 ? "Weak" : "Very Weak";
+    for (let i = 0; i < length; i++) {
+      const randomIndex = random.randomInt(0, charsetLength);
+      password[i] = charset[randomIndex];
+    }
 
-    return { score: Math.max(0, score), level, feedback };
+    return password.join("");
   }
 }
@@ -0,0 +1,201 @@
+import { ValidationError } from "./errors.js";
+
+/**
+ * Parser for the `passwordrules` attribute syntax published by websites, e.g.
+ * `minlength: 12; maxlength: 20; required: upper; required: digit; allowed: [-_!]; max-consecutive: 2`.
+ *
+ * Each `required` rule lists character classes of which at least one character
+ * must appear; `allowed` widens the alphabet without requiring anything.
+ * Repeated properties combine the way the spec describes: the largest
+ * minlength, the smallest maxlength and the smallest max-consecutive win.
+ */
+
+const UPPER = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const LOWER = "abcdefghijklmnopqrstuvwxyz";
+const DIGIT = "0123456789";
+const SPECIAL = "-~!@#$%^&*_+=`|(){}[:;\"'<>,.?] ";
+
+const NAMED_CLASSES: Record<string, string> = {
+  upper: UPPER,
+  lower: LOWER,
+  digit: DIGIT,
+  special: SPECIAL,
+  "ascii-printable": UPPER + LOWER + DIGIT + SPECIAL,
+};
+
+const MAX_GENERATED_LENGTH = 128;
+
+export interface RulesDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface PasswordPolicy {
+  minLength?: number;
+  maxLength?: number;
+  requiredSets: string[];
+  allowed: string;
+  maxConsecutive?: number;
+}
+
+export interface ParsedRules {
+  policy: PasswordPolicy;
+  diagnostics: RulesDiagnostic[];
+}
+
+export function parsePasswordRules(rules: string): ParsedRules {
+  const diagnostics: RulesDiagnostic[] = [];
+  const requiredSets: string[] = [];
+  const allowedSets: string[] = [];
+  const policy: PasswordPolicy = { requiredSets, allowed: "" };
+
+  const error = (message: string) => diagnostics.push({ severity: "error", message });
+  const warning = (message: string) => diagnostics.push({ severity: "warning", message });
+
+  const statements = rules
+    .split(";")
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+
+  for (const statement of statements) {
+    const colon = statement.indexOf(":");
+    if (colon === -1) {
+      error(`Rule "${statement}" is missing a ':'`);
+      continue;
+    }
+
+    const name = statement.slice(0, colon).trim().toLowerCase();
+    const value = statement.slice(colon + 1).trim();
+
+    switch (name) {
+      case "required":
+      case "allowed": {
+        const chars = parseClassList(value, warning, error);
+        if (chars === null) break;
+        if (chars.length === 0) {
+          error(`"${name}: ${value}" doesn't contain any characters`);
+          break;
+        }
+        (name === "required" ? requiredSets : allowedSets).push(chars);
+        break;
+      }
+      case "minlength":
+      case "maxlength":
+      case "max-consecutive": {
+        const number = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+        if (isNaN(number)) {
+          error(`"${name}" needs a whole number, got "${value}"`);
+          break;
+        }
+
+        if (name === "minlength") policy.minLength = Math.max(policy.minLength ?? 0, number);
+        if (name === "maxlength") policy.maxLength = Math.min(policy.maxLength ?? Infinity, number);
+        if (name === "max-consecutive") {
+          if (number < 1) error("max-consecutive must be at least 1");
+          else policy.maxConsecutive = Math.min(policy.maxConsecutive ?? Infinity, number);
+        }
+        break;
+      }
+      default:
+        warning(`Unsupported rule "${name}" ignored`);
+    }
+  }
+
+  policy.allowed = uniqueChars([...requiredSets, ...allowedSets].join("")) || NAMED_CLASSES["ascii-printable"];
+
+  if (policy.minLength !== undefined && policy.maxLength !== undefined && policy.minLength > policy.maxLength) {
+    error(`minlength ${policy.minLength} is greater than maxlength ${policy.maxLength}`);
+  }
+
+  if (policy.maxLength !== undefined && policy.maxLength < requiredSets.length) {
+    error(`maxlength ${policy.maxLength} is too short for ${requiredSets.length} required character classes`);
+  }
+
+  if (policy.maxLength !== undefined && policy.maxLength < 4) {
+    error(`maxlength ${policy.maxLength} is below gmana's minimum password length of 4`);
+  }
+
+  if (policy.minLength !== undefined && policy.minLength > MAX_GENERATED_LENGTH) {
+    error(`minlength ${policy.minLength} exceeds gmana's maximum password length of ${MAX_GENERATED_LENGTH}`);
+  }
+
+  if (policy.maxConsecutive !== undefined && uniqueChars(policy.allowed).length === 1 && (policy.minLength ?? 4) > policy.maxConsecutive) {
+    error(`Only one character is allowed, so max-consecutive ${policy.maxConsecutive} can't be met`);
+  }
+
+  return { policy, diagnostics };
+}
+
+/**
+ * Parses and throws on the first error, for callers that only need the policy.
+ */
+export function parsePasswordRulesStrict(rules: string): PasswordPolicy {
+  const { policy, diagnostics } = parsePasswordRules(rules);
+  const firstError = diagnostics.find(({ severity }) => severity === "error");
+
+  if (firstError) {
+    throw new ValidationError(`Invalid password rules: ${firstError.message}`);
+  }
+
+  return policy;
+}
+
+/** Picks the generated length: the requested one, clamped into the policy's range. */
+export function resolvePolicyLength(policy: PasswordPolicy, requestedLength: number): number {
+  const min = Math.max(policy.minLength ?? 0, policy.requiredSets.length, 4);
+  const max = Math.min(policy.maxLength ?? MAX_GENERATED_LENGTH, MAX_GENERATED_LENGTH);
+  return Math.min(Math.max(requestedLength, min), max);
+}
+
+function parseClassList(value: string, warning: (message: string) => void, error: (message: string) => void): string | null {
+  let chars = "";
+  let i = 0;
+
+  while (i < value.length) {
+    if (value[i] === "," || /\s/.test(value[i])) {
+      i++;
+      continue;
+    }
+
+    if (value[i] === "[") {
+      const end = findSetEnd(value, i);
+      if (end === -1) {
+        error(`Unterminated custom character set in "${value}"`);
+        return null;
+      }
+      chars += value.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+
+    const match = /^[a-z-]+/i.exec(value.slice(i));
+    const identifier = match?.[0].toLowerCase() ?? value[i];
+    i += match ? match[0].length : 1;
+
+    if (identifier === "unicode") {
+      warning("\"unicode\" isn't generated; using ascii-printable instead");
+      chars += NAMED_CLASSES["ascii-printable"];
+    } else if (NAMED_CLASSES[identifier]) {
+      chars += NAMED_CLASSES[identifier];
+    } else {
+      error(`Unknown character class "${identifier}"`);
+      return null;
+    }
+  }
+
+  return uniqueChars(chars);
+}
+
+// Per the spec, ']' can only appear as the last character of a custom set and '-' only as the first
+function findSetEnd(value: string, start: number): number {
+  for (let i = start + 1; i < value.length; i++) {
+    if (value[i] === "]" && (i + 1 >= value.length || value[i + 1] !== "]")) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function uniqueChars(chars: string): string {
+  return [...new Set(chars.split(""))].join("");
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { EXIT_CODES, exitCodeFor } from "./errors.js";
+import { calculatePatternEntropy, generateFromPattern, parsePattern, PatternSyntaxError } from "./pattern.js";
+import { createSeededRandom } from "./random.js";
+
+const random = () => createSeededRandom(Buffer.from("gmana pattern fixture seed"));
+
+describe("parsePattern", () => {
+  it("reads emoji in sets and literals as whole characters", () => {
+    expect(parsePattern("[😀🎉]{4}'👍🏽'\\é")).toEqual([
+      { kind: "set", chars: ["😀", "🎉"], min: 4, max: 4, position: 0 },
+      { kind: "literal", text: "👍🏽", min: 1, max: 1, position: 7 },
+      { kind: "literal", text: "é", min: 1, max: 1, position: 10 },
+    ]);
+  });
+
+  it("expands ranges by code point", () => {
+    const [token] = parsePattern("[😀-😃]");
+
+    expect(token).toMatchObject({ kind: "set", chars: ["😀", "😁", "😂", "😃"] });
+  });
+
+  it("rejects a range whose ends aren't single code points", () => {
+    expect(() => parsePattern("[👍🏽-👎]")).toThrow(/needs single code points/);
+  });
+
+  it("reports syntax errors as validation errors at the grapheme position", () => {
+    let error: unknown;
+    try {
+      parsePattern("[😀🎉]{4");
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PatternSyntaxError);
+    expect((error as PatternSyntaxError).position).toBe(4);
+    expect(exitCodeFor(error)).toBe(EXIT_CODES.validation);
+  });
+});
+
+describe("generateFromPattern", () => {
+  it("never splits an emoji", () => {
+    const password = generateFromPattern("[😀🎉]{16}", random());
+
+    expect([...password]).toHaveLength(16);
+    expect(password).toMatch(/^[😀🎉]{16}$/u);
+  });
+
+  it("counts an emoji set's entropy by its members", () => {
+    expect(calculatePatternEntropy("[😀🎉]{4}")).toBeCloseTo(4, 10);
+  });
+});
@@ -0,0 +1,214 @@
+import { splitGraphemes } from "./charset.js";
+import { ValidationError } from "./errors.js";
+import { systemRandom, type RandomSource } from "./random.js";
+
+/**
+ * Template grammar for `gen --pattern`:
+ *
+ *   a / A   lowercase / uppercase letter     9       digit
+ *   c / C   lowercase / uppercase consonant  h / H   lowercase / uppercase hex digit
+ *   v / V   lowercase / uppercase vowel      s       symbol (!@#$%^&*)
+ *   x       letter or digit                  *       letter, digit or symbol
+ *   [A-F_]  custom set with ranges           'text'  literal run
+ *   \c      escaped literal character        {n}     repeat previous atom n times
+ *                                            {m,n}   repeat between m and n times
+ *
+ * Punctuation and whitespace outside these constructs are literal. Any other
+ * letter or digit must be quoted or escaped so typos don't silently become
+ * literals. Patterns are read one grapheme at a time, so emoji and accented
+ * letters work anywhere a character does; positions count graphemes too.
+ */
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = LOWERCASE.toUpperCase();
+const VOWELS = "aeiou";
+const CONSONANTS = "bcdfghjklmnpqrstvwxyz";
+const DIGITS = "0123456789";
+const HEX = "0123456789abcdef";
+const SYMBOLS = "!@#$%^&*";
+
+const PLACEHOLDERS: Record<string, string> = {
+  a: LOWERCASE,
+  A: UPPERCASE,
+  c: CONSONANTS,
+  C: CONSONANTS.toUpperCase(),
+  v: VOWELS,
+  V: VOWELS.toUpperCase(),
+  "9": DIGITS,
+  h: HEX,
+  H: HEX.toUpperCase(),
+  s: SYMBOLS,
+  x: LOWERCASE + UPPERCASE + DIGITS,
+  "*": LOWERCASE + UPPERCASE + DIGITS + SYMBOLS,
+};
+
+const MAX_REPEAT = 128;
+const MAX_OUTPUT_LENGTH = 256;
+// Keeps a range like [\u0000-\u{10FFFF}] from building a million-entry set
+const MAX_RANGE_SIZE = 4096;
+
+export type PatternToken =
+  | { kind: "set"; chars: string[]; min: number; max: number; position: number }
+  | { kind: "literal"; text: string; min: number; max: number; position: number };
+
+export class PatternSyntaxError extends ValidationError {
+  override name = "PatternSyntaxError";
+
+  constructor(
+    message: string,
+    readonly pattern: string,
+    readonly position: number,
+  ) {
+    super(`${message} at position ${position + 1}\n  ${pattern}\n  ${" ".repeat(position)}^`);
+  }
+}
+
+export function parsePattern(pattern: string): PatternToken[] {
+  const chars = splitGraphemes(pattern);
+  const tokens: PatternToken[] = [];
+  let i = 0;
+
+  const fail = (message: string, position = i): never => {
+    throw new PatternSyntaxError(message, pattern, position);
+  };
+
+  while (i < chars.length) {
+    const start = i;
+    const char = chars[i];
+
+    if (char === "\\") {
+      if (i + 1 >= chars.length) fail("Dangling escape");
+      tokens.push({ kind: "literal", text: chars[i + 1], min: 1, max: 1, position: start });
+      i += 2;
+    } else if (char === "'") {
+      const end = chars.indexOf("'", i + 1);
+      if (end === -1) fail("Unterminated literal run");
+      if (end === i + 1) fail("Empty literal run");
+      tokens.push({ kind: "literal", text: chars.slice(i + 1, end).join(""), min: 1, max: 1, position: start });
+      i = end + 1;
+    } else if (char === "[") {
+      const { members, end } = parseSet(chars, i, fail);
+      tokens.push({ kind: "set", chars: members, min: 1, max: 1, position: start });
+      i = end;
+    } else if (char === "{") {
+      fail("Repeat count without anything to repeat");
+    } else if (char === "]" || char === "}") {
+      fail(`Unmatched '${char}'`);
+    } else if (Object.hasOwn(PLACEHOLDERS, char)) {
+      tokens.push({ kind: "set", chars: [...PLACEHOLDERS[char]], min: 1, max: 1, position: start });
+      i++;
+    } else if (/[a-zA-Z0-9]/.test(char)) {
+      fail(`Unknown placeholder '${char}' (quote or escape literal letters and digits)`);
+    } else {
+      tokens.push({ kind: "literal", text: char, min: 1, max: 1, position: start });
+      i++;
+    }
+
+    if (chars[i] === "{") {
+      const { min, max, end } = parseRepeat(chars, i, fail);
+      const token = tokens[tokens.length - 1];
+      token.min = min;
+      token.max = max;
+      i = end;
+    }
+  }
+
+  if (tokens.length === 0) {
+    fail("Pattern is empty", 0);
+  }
+
+  const maxLength = tokens.reduce((sum, token) => sum + token.max * (token.kind === "literal" ? splitGraphemes(token.text).length : 1), 0);
+  if (maxLength > MAX_OUTPUT_LENGTH) {
+    fail(`Pattern can produce up to ${maxLength} characters (maximum is ${MAX_OUTPUT_LENGTH})`, 0);
+  }
+
+  return tokens;
+}
+
+function parseSet(chars: string[], start: number, fail: (message: string, position?: number) => never): { members: string[]; end: number } {
+  const members = new Set<string>();
+  let i = start + 1;
+
+  const readChar = (): string => {
+    if (chars[i] === "\\") {
+      if (i + 1 >= chars.length) fail("Dangling escape");
+      i += 2;
+      return chars[i - 1];
+    }
+    return chars[i++];
+  };
+
+  while (i < chars.length && chars[i] !== "]") {
+    const fromPosition = i;
+    const from = readChar();
+
+    if (chars[i] === "-" && i + 1 < chars.length && chars[i + 1] !== "]") {
+      i++;
+      const to = readChar();
+      const [first, last] = [from, to].map((char) => ([...char].length === 1 ? char.codePointAt(0)! : undefined));
+      if (first === undefined || last === undefined) {
+        fail(`Range '${from}-${to}' needs single code points at both ends`, fromPosition);
+      }
+      if (last! < first!) {
+        fail(`Invalid range '${from}-${to}'`, fromPosition);
+      }
+      if (last! - first! >= MAX_RANGE_SIZE) {
+        fail(`Range '${from}-${to}' is larger than ${MAX_RANGE_SIZE} characters`, fromPosition);
+      }
+      for (let code = first!; code <= last!; code++) {
+        members.add(String.fromCodePoint(code));
+      }
+    } else {
+      members.add(from);
+    }
+  }
+
+  if (i >= chars.length) fail("Unterminated character set", start);
+  if (members.size === 0) fail("Empty character set", start);
+
+  return { members: [...members], end: i + 1 };
+}
+
+function parseRepeat(chars: string[], start: number, fail: (message: string, position?: number) => never): { min: number; max: number; end: number } {
+  const end = chars.indexOf("}", start);
+  if (end === -1) fail("Unterminated repeat count", start);
+
+  const match = /^(\d+)(?:,(\d+))?$/.exec(chars.slice(start + 1, end).join(""));
+  if (!match) fail("Repeat count must be {n} or {min,max}", start);
+
+  const min = parseInt(match![1], 10);
+  const max = match![2] === undefined ? min : parseInt(match![2], 10);
+
+  if (max < min) fail(`Repeat maximum ${max} is less than minimum ${min}`, start);
+  if (max === 0) fail("Repeat count must be at least 1", start);
+  if (max > MAX_REPEAT) fail(`Repeat count cannot exceed ${MAX_REPEAT}`, start);
+
+  return { min, max, end: end + 1 };
+}
+
+export function generateFromPattern(pattern: string, random: RandomSource = systemRandom): string {
+  let output = "";
+
+  for (const token of parsePattern(pattern)) {
+    const count = token.min === token.max ? token.min : random.randomInt(token.min, token.max + 1);
+
+    for (let n = 0; n < count; n++) {
+      output += token.kind === "literal" ? token.text : token.chars[random.randomInt(0, token.chars.length)];
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Bits of entropy in the template space: every random choice the generator
+ * makes, including variable repeat counts.
+ */
+export function calculatePatternEntropy(pattern: string): number {
+  return parsePattern(pattern).reduce((bits, token) => {
+    const countBits = Math.log2(token.max - token.min + 1);
+    // A variable-length set contributes at least its shortest expansion
+    const charBits = token.kind === "set" ? token.min * Math.log2(token.chars.length) : 0;
+    return bits + countBits + charBits;
+  }, 0);
+}
@@ -0,0 +1,55 @@
+import { describeConfigSource, loadConfig, readWritableConfig, resolveConfig, saveConfig } from "./config.js";
+import { ValidationError } from "./errors.js";
+import type { PasswordOptions } from "./password-generator.js";
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+export interface Profile {
+  name: string;
+  options: PasswordOptions;
+  isDefault: boolean;
+}
+
+export async function listProfiles(): Promise<Profile[]> {
+  const config = await loadConfig();
+
+  return Object.entries(config.profiles)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, options]) => ({ name, options, isDefault: name === config.defaultProfile }));
+}
+
+export async function saveProfile(name: string, options: PasswordOptions): Promise<void> {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new ValidationError("Profile names may only contain letters, digits, '-' and '_' (max 32 characters)");
+  }
+
+  const stored = await readWritableConfig();
+  await saveConfig({ profiles: { ...stored.profiles, [name]: options } });
+}
+
+export async function removeProfile(name: string): Promise<void> {
+  const { config, sources } = await resolveConfig();
+  const stored = await readWritableConfig();
+
+  if (!config.profiles[name]) {
+    throw new ValidationError(`Unknown profile "${name}"`);
+  }
+
+  // Profiles merged in from a project file or --config can only be removed there
+  if (!stored.profiles?.[name]) {
+    throw new ValidationError(`Profile "${name}" comes from ${describeConfigSource(sources.profiles)}; remove it there`);
+  }
+
+  const profiles = Object.fromEntries(Object.entries(stored.profiles).filter(([profileName]) => profileName !== name));
+  await saveConfig({ profiles, defaultProfile: stored.defaultProfile === name ? undefined : stored.defaultProfile });
+}
+
+export async function setDefaultProfile(name: string | undefined): Promise<void> {
+  const config = await loadConfig();
+
+  if (name !== undefined && !config.profiles[name]) {
+    throw new ValidationError(`Unknown profile "${name}"`);
+  }
+
+  await saveConfig({ defaultProfile: name });
+}
@@ -0,0 +1,158 @@
+import { ValidationError } from "./errors.js";
+import type { PasswordOptions } from "./password-generator.js";
+import { randomBigInt, systemRandom, type RandomSource } from "./random.js";
+
+/**
+ * Pronounceable passwords: letters alternate consonant/vowel ("cv" syllables),
+ * followed by a fixed tail of symbols and digits, e.g. "Lomafiruke!42". Each
+ * syllable may start with a capital. Every output maps to exactly one set of
+ * choices, so the entropy below is the size of the template space, not the
+ * length times log2(charset) that a random string of the same length gets.
+ */
+
+// Consonants that read back unambiguously over the phone: no c (k or s), q, w, x, y
+const CONSONANTS = "bdfghjklmnprstvz";
+const VOWELS = "aeiou";
+const DIGITS = "0123456789";
+const SYMBOLS = "!@#$%^&*";
+const SIMILAR_CHARS = "il1Lo0O";
+
+const MIN_LETTERS = 4;
+const DEFAULT_DIGITS = 2;
+const DEFAULT_SYMBOLS = 1;
+
+export type PronounceableOptions = Pick<
+  PasswordOptions,
+  "length" | "includeUppercase" | "includeLowercase" | "includeNumbers" | "includeSymbols" | "excludeSimilar" | "minUppercase" | "minNumbers" | "minSymbols" | "requireEachClass"
+>;
+
+interface Template {
+  consonants: string;
+  vowels: string;
+  letters: number;
+  syllables: number;
+  /** Syllables that must start with a capital; -1 when every letter is uppercase */
+  minCapitals: number;
+  digits: number;
+  symbols: number;
+}
+
+export class PronounceableGenerator {
+  static generate(options: PronounceableOptions, random: RandomSource = systemRandom): string {
+    const template = this.buildTemplate(options);
+    const letters: string[] = [];
+
+    for (let i = 0; i < template.letters; i++) {
+      const set = i % 2 === 0 ? template.consonants : template.vowels;
+      letters.push(set[random.randomInt(0, set.length)]);
+    }
+
+    if (template.minCapitals === -1) {
+      letters.forEach((letter, i) => (letters[i] = letter.toUpperCase()));
+    } else if (options.includeUppercase) {
+      for (const syllable of this.pickCapitals(template, random)) {
+        letters[syllable * 2] = letters[syllable * 2].toUpperCase();
+      }
+    }
+
+    const symbols = this.pick(this.applyExclusions(SYMBOLS, options), template.symbols, random);
+    const digits = this.pick(this.applyExclusions(DIGITS, options), template.digits, random);
+
+    return letters.join("") + symbols + digits;
+  }
+
+  static calculateEntropy(options: PronounceableOptions): number {
+    const template = this.buildTemplate(options);
+    const consonantCount = Math.ceil(template.letters / 2);
+    const vowelCount = Math.floor(template.letters / 2);
+
+    let bits = consonantCount * Math.log2(template.consonants.length) + vowelCount * Math.log2(template.vowels.length);
+    bits += template.symbols * Math.log2(this.applyExclusions(SYMBOLS, options).length);
+    bits += template.digits * Math.log2(this.applyExclusions(DIGITS, options).length);
+
+    if (template.minCapitals !== -1 && options.includeUppercase) {
+      bits += Math.log2(Number(this.capitalWeights(template).reduce((sum, weight) => sum + weight, 0n)));
+    }
+
+    return bits;
+  }
+
+  /** Works out the letter/digit/symbol split for a length, throwing if it can't hold enough letters */
+  private static buildTemplate(options: PronounceableOptions): Template {
+    if (!options.includeUppercase && !options.includeLowercase) {
+      throw new ValidationError("Pronounceable passwords need uppercase or lowercase letters");
+    }
+
+    const digits = options.includeNumbers ? Math.max(options.minNumbers ?? 0, DEFAULT_DIGITS) : 0;
+    const symbols = options.includeSymbols ? Math.max(options.minSymbols ?? 0, DEFAULT_SYMBOLS) : 0;
+    const letters = options.length - digits - symbols;
+
+    if (letters < MIN_LETTERS) {
+      throw new ValidationError(`Length ${options.length} is too short for a pronounceable password: the digits and symbols leave ${letters} letters, and it needs at least ${MIN_LETTERS}`);
+    }
+
+    const syllables = Math.ceil(letters / 2);
+    let minCapitals = -1;
+
+    if (options.includeLowercase) {
+      minCapitals = options.includeUppercase ? Math.max(options.minUppercase ?? 0, options.requireEachClass ? 1 : 0) : 0;
+      if (minCapitals > syllables) {
+        throw new ValidationError(`Cannot fit ${minCapitals} uppercase letters into ${syllables} syllables; increase the length`);
+      }
+    }
+
+    return {
+      consonants: this.applyExclusions(CONSONANTS, options),
+      vowels: this.applyExclusions(VOWELS, options),
+      letters,
+      syllables,
+      minCapitals,
+      digits,
+      symbols,
+    };
+  }
+
+  /** weights[k]: ways to capitalize exactly k syllables, zero below the minimum */
+  private static capitalWeights(template: Template): bigint[] {
+    const weights: bigint[] = [];
+    let ways = 1n;
+
+    for (let k = 0; k <= template.syllables; k++) {
+      weights.push(k >= template.minCapitals ? ways : 0n);
+      ways = (ways * BigInt(template.syllables - k)) / BigInt(k + 1);
+    }
+
+    return weights;
+  }
+
+  /** Uniform over every capitalization with at least `minCapitals` capitals */
+  private static pickCapitals(template: Template, random: RandomSource): number[] {
+    const weights = this.capitalWeights(template);
+    let target = randomBigInt(weights.reduce((sum, weight) => sum + weight, 0n), random);
+    let count = 0;
+
+    while (target >= weights[count]) {
+      target -= weights[count++];
+    }
+
+    const syllables = Array.from({ length: template.syllables }, (_, i) => i);
+    for (let i = syllables.length - 1; i > 0; i--) {
+      const j = random.randomInt(0, i + 1);
+      [syllables[i], syllables[j]] = [syllables[j], syllables[i]];
+    }
+
+    return syllables.slice(0, count);
+  }
+
+  private static pick(chars: string, count: number, random: RandomSource): string {
+    let output = "";
+    for (let i = 0; i < count; i++) {
+      output += chars[random.randomInt(0, chars.length)];
+    }
+    return output;
+  }
+
+  private static applyExclusions(chars: string, options: PronounceableOptions): string {
+    return options.excludeSimilar ? [...chars].filter((char) => !SIMILAR_CHARS.includes(char)).join("") : chars;
+  }
+}
@@ -0,0 +1,69 @@
+import crypto from "node:crypto";
+
+/**
+ * Where generators get their randomness. Everything defaults to the system
+ * CSPRNG; `derive` swaps in a seeded stream so the same inputs always produce
+ * the same password.
+ */
+export interface RandomSource {
+  /** Uniform integer in [min, max) */
+  randomInt(min: number, max: number): number;
+  randomBytes(size: number): Buffer;
+}
+
+export const systemRandom: RandomSource = {
+  randomInt: (min, max) => crypto.randomInt(min, max),
+  randomBytes: (size) => crypto.randomBytes(size),
+};
+
+/** Uniform integer in [0, bound), for counts too large for randomInt */
+export function randomBigInt(bound: bigint, random: RandomSource = systemRandom): bigint {
+  const bits = bound.toString(2).length;
+  const bytes = Math.ceil(bits / 8);
+  const mask = (1n << BigInt(bits)) - 1n;
+
+  // Rejection sampling keeps the result uniform; each draw succeeds with probability > 1/2
+  for (;;) {
+    const candidate = BigInt("0x" + random.randomBytes(bytes).toString("hex")) & mask;
+    if (candidate < bound) return candidate;
+  }
+}
+
+// Same 48-bit range limit as crypto.randomInt
+const MAX_RANGE = 2 ** 48;
+
+/**
+ * Deterministic byte stream expanded from `seed` with HMAC-SHA256 in counter
+ * mode. Integers are drawn by rejection sampling, so they stay unbiased.
+ */
+export function createSeededRandom(seed: Buffer): RandomSource {
+  let buffer = Buffer.alloc(0);
+  let block = 0;
+
+  const randomBytes = (size: number): Buffer => {
+    while (buffer.length < size) {
+      const counter = Buffer.alloc(8);
+      counter.writeBigUInt64BE(BigInt(block++));
+      buffer = Buffer.concat([buffer, crypto.createHmac("sha256", seed).update(counter).digest()]);
+    }
+
+    const bytes = buffer.subarray(0, size);
+    buffer = buffer.subarray(size);
+    return Buffer.from(bytes);
+  };
+
+  const randomInt = (min: number, max: number): number => {
+    const range = max - min;
+    if (!Number.isSafeInteger(range) || range <= 0 || range > MAX_RANGE) {
+      throw new RangeError(`Invalid random range [${min}, ${max})`);
+    }
+
+    const limit = MAX_RANGE - (MAX_RANGE % range);
+    for (;;) {
+      const value = randomBytes(6).readUIntBE(0, 6);
+      if (value < limit) return min + (value % range);
+    }
+  };
+
+  return { randomInt, randomBytes };
+}
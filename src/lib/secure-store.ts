@@ -0,0 +1,158 @@
+import fs from "fs-extra";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { createKdfParams, decrypt, deriveKey, encrypt, EncryptedPayloadSchema, isEncryptedPayload, KdfParamsSchema } from "./crypto.js";
+import { AuthError, StorageError } from "./errors.js";
+
+const KeystoreSchema = z.object({
+  version: z.literal(1),
+  kdf: KdfParamsSchema,
+  check: EncryptedPayloadSchema,
+});
+
+const SessionSchema = z.object({
+  key: z.string(),
+  expiresAt: z.string(),
+});
+
+const CONFIG_DIR = path.join(os.homedir(), ".gmana");
+const KEYSTORE_FILE = path.join(CONFIG_DIR, "keystore.json");
+const SESSION_FILE = path.join(CONFIG_DIR, "session.json");
+const CHECK_VALUE = "gmana-keystore";
+const FILE_MODE = 0o600;
+
+export async function isKeystoreInitialized(): Promise<boolean> {
+  return fs.pathExists(KEYSTORE_FILE);
+}
+
+export async function initializeKeystore(passphrase: string): Promise<Buffer> {
+  if (await isKeystoreInitialized()) {
+    throw new StorageError("A master passphrase is already set");
+  }
+
+  const kdf = createKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+
+  await fs.ensureDir(CONFIG_DIR);
+  await fs.writeJson(KEYSTORE_FILE, { version: 1, kdf, check: encrypt(key, CHECK_VALUE) }, { spaces: 2, mode: FILE_MODE });
+
+  return key;
+}
+
+export async function verifyPassphrase(passphrase: string): Promise<Buffer> {
+  if (!(await isKeystoreInitialized())) {
+    throw new AuthError("No master passphrase set. Run `gmana unlock` to create one");
+  }
+
+  const keystore = KeystoreSchema.parse(await fs.readJson(KEYSTORE_FILE));
+  const key = await deriveKey(passphrase, keystore.kdf);
+
+  try {
+    if (decrypt(key, keystore.check) !== CHECK_VALUE) throw new Error();
+  } catch {
+    throw new AuthError("Incorrect master passphrase");
+  }
+
+  return key;
+}
+
+export async function startSession(key: Buffer, timeoutMinutes: number): Promise<Date> {
+  const expiresAt = new Date(Date.now() + timeoutMinutes * 60_000);
+
+  await fs.ensureDir(CONFIG_DIR);
+  await fs.writeJson(SESSION_FILE, { key: key.toString("base64"), expiresAt: expiresAt.toISOString() }, { spaces: 2, mode: FILE_MODE });
+  // The mode only applies to new files, so tighten a session file left by an older version too
+  await fs.chmod(SESSION_FILE, FILE_MODE);
+
+  return expiresAt;
+}
+
+export async function endSession(): Promise<void> {
+  if (await fs.pathExists(SESSION_FILE)) {
+    // Overwrite the key material before unlinking so it doesn't linger in the file's old blocks
+    await fs.writeJson(SESSION_FILE, { key: "", expiresAt: new Date(0).toISOString() }, { mode: FILE_MODE });
+    await fs.remove(SESSION_FILE);
+  }
+}
+
+export async function getSessionExpiry(): Promise<Date | null> {
+  const session = await readSession();
+  return session ? new Date(session.expiresAt) : null;
+}
+
+export async function getSessionKey(): Promise<Buffer | null> {
+  const session = await readSession();
+  return session ? Buffer.from(session.key, "base64") : null;
+}
+
+async function readSession(): Promise<z.infer<typeof SessionSchema> | null> {
+  try {
+    if (await fs.pathExists(SESSION_FILE)) {
+      const session = SessionSchema.parse(await fs.readJson(SESSION_FILE));
+
+      if (new Date(session.expiresAt).getTime() > Date.now()) {
+        return session;
+      }
+
+      await endSession();
+    }
+  } catch {
+    // Treat an unreadable session as locked
+  }
+
+  return null;
+}
+
+async function requireSessionKey(): Promise<Buffer> {
+  const key = await getSessionKey();
+
+  if (!key) {
+    throw new AuthError("gmana is locked. Run `gmana unlock` first");
+  }
+
+  return key;
+}
+
+export async function readSecureJson<S extends z.ZodTypeAny>(file: string, schema: S, fallback: z.infer<S>): Promise<z.infer<S>> {
+  if (!(await fs.pathExists(file))) {
+    return fallback;
+  }
+
+  const raw = await fs.readJson(file);
+
+  if (!isEncryptedPayload(raw)) {
+    throw new StorageError(`${path.basename(file)} is not encrypted. Run \`gmana unlock\` to migrate it`);
+  }
+
+  const key = await requireSessionKey();
+  return schema.parse(JSON.parse(decrypt(key, raw)));
+}
+
+export async function writeSecureJson(file: string, data: unknown): Promise<void> {
+  const key = await requireSessionKey();
+
+  await fs.ensureDir(path.dirname(file));
+  await fs.writeJson(file, encrypt(key, JSON.stringify(data)), { spaces: 2, mode: FILE_MODE });
+  await fs.chmod(file, FILE_MODE);
+}
+
+/**
+ * Encrypts a file written by an older gmana version in place. Returns true if
+ * the file was plaintext and has been migrated.
+ */
+export async function migratePlaintextFile(file: string, key: Buffer): Promise<boolean> {
+  if (!(await fs.pathExists(file))) {
+    return false;
+  }
+
+  const raw = await fs.readJson(file);
+
+  if (isEncryptedPayload(raw)) {
+    return false;
+  }
+
+  await fs.writeJson(file, encrypt(key, JSON.stringify(raw)), { spaces: 2, mode: FILE_MODE });
+  await fs.chmod(file, FILE_MODE);
+  return true;
+}
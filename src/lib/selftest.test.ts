@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createSeededRandom } from "./random.js";
+import { createBiasedRandom, runSelfTest, SELFTEST_SCENARIOS } from "./selftest.js";
+import { chiSquarePValue, twoSidedNormalPValue } from "./statistics.js";
+
+const seed = Buffer.from("gmana selftest fixture seed");
+
+// Each run generates 10 000 passwords through the seeded HMAC stream
+const TIMEOUT = 30_000;
+
+describe("runSelfTest", () => {
+  it("passes an unbiased generator", () => {
+    const reports = runSelfTest({ samples: 2000, alpha: 0.001, random: createSeededRandom(seed) });
+
+    expect(reports.map((report) => report.name)).toEqual(SELFTEST_SCENARIOS.map((scenario) => scenario.name));
+    expect(reports.flatMap((report) => report.results.filter((result) => !result.passed))).toEqual([]);
+  }, TIMEOUT);
+
+  it("catches a biased random source in every scenario", () => {
+    const reports = runSelfTest({ samples: 2000, alpha: 0.001, random: createBiasedRandom(createSeededRandom(seed), 0.02) });
+
+    for (const report of reports) {
+      expect(report.passed, report.name).toBe(false);
+      expect(report.results.find((result) => result.test === "frequency")?.pValue, report.name).toBeLessThan(1e-6);
+    }
+  }, TIMEOUT);
+});
+
+describe("p-values", () => {
+  it("matches chi-square critical values", () => {
+    expect(chiSquarePValue(3.841459, 1)).toBeCloseTo(0.05, 6);
+    expect(chiSquarePValue(124.342, 100)).toBeCloseTo(0.05, 5);
+    expect(chiSquarePValue(0, 10)).toBe(1);
+  });
+
+  it("matches normal critical values", () => {
+    expect(twoSidedNormalPValue(1.959964)).toBeCloseTo(0.05, 6);
+    expect(twoSidedNormalPValue(-2.575829)).toBeCloseTo(0.01, 6);
+    expect(twoSidedNormalPValue(0)).toBe(1);
+  });
+});
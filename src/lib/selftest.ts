@@ -0,0 +1,238 @@
+import { CHARSET_PRESETS, splitGraphemes } from "./charset.js";
+import { PasswordGenerator, PasswordOptionsSchema, type PasswordOptions } from "./password-generator.js";
+import { systemRandom, type RandomSource } from "./random.js";
+import { chiSquarePValue, twoSidedNormalPValue } from "./statistics.js";
+
+/**
+ * Statistical checks that `PasswordGenerator.generate` draws characters
+ * uniformly and independently. Each scenario generates a sample through the
+ * real generator and runs four tests on it:
+ *
+ * - frequency: chi-square of character counts against a uniform distribution
+ * - position: chi-square of position × character, so no character favours a slot
+ * - runs: number of repeated adjacent characters against its expectation
+ * - serial: lag-1 correlation between neighbouring characters
+ *
+ * With per-class minimums the generator is uniform over valid passwords, not
+ * over characters, so characters are only compared within their class and
+ * the expectations are conditioned on each password's class counts.
+ */
+
+export const SELFTEST_TESTS = ["frequency", "position", "runs", "serial"] as const;
+
+export type SelfTestName = (typeof SELFTEST_TESTS)[number];
+
+export interface SelfTestScenario {
+  name: string;
+  description: string;
+  options: PasswordOptions;
+}
+
+export const SELFTEST_SCENARIOS: SelfTestScenario[] = [
+  { name: "default", description: "12 characters, all four classes, one of each required", options: PasswordOptionsSchema.parse({}) },
+  { name: "uniform", description: "20 characters with extra symbols, no minimums", options: PasswordOptionsSchema.parse({ length: 20, includeExtraSymbols: true, requireEachClass: false }) },
+  {
+    name: "minimums",
+    description: "16 characters, at least 3 digits and 2 symbols, similar and ambiguous excluded",
+    options: PasswordOptionsSchema.parse({ length: 16, minNumbers: 3, minSymbols: 2, excludeSimilar: true, excludeAmbiguous: true }),
+  },
+  { name: "hex", description: "32 characters from the hex preset", options: PasswordOptionsSchema.parse({ length: 32, customChars: CHARSET_PRESETS.hex }) },
+  { name: "unicode", description: "10 characters from a charset with emoji and accents", options: PasswordOptionsSchema.parse({ length: 10, customChars: "αβγδé🍎🍌👍🏽" }) },
+];
+
+export interface SelfTestResult {
+  test: SelfTestName;
+  statistic: number;
+  /** Degrees of freedom of chi-square tests; the others are z-scores */
+  df?: number;
+  pValue: number;
+  passed: boolean;
+}
+
+export interface ScenarioReport {
+  name: string;
+  description: string;
+  length: number;
+  charsetSize: number;
+  samples: number;
+  results: SelfTestResult[];
+  passed: boolean;
+}
+
+export interface SelfTestOptions {
+  /** Passwords generated per scenario */
+  samples: number;
+  /** A test fails when its p-value is below this */
+  alpha: number;
+  random?: RandomSource;
+  scenarios?: SelfTestScenario[];
+}
+
+export function runSelfTest({ samples, alpha, random = systemRandom, scenarios = SELFTEST_SCENARIOS }: SelfTestOptions): ScenarioReport[] {
+  return scenarios.map((scenario) => runScenario(scenario, samples, alpha, random));
+}
+
+/**
+ * Wraps `random` so randomInt returns its lowest value `bias` of the time.
+ * A healthy selftest fails against it, which shows the tests have teeth.
+ */
+export function createBiasedRandom(random: RandomSource, bias: number): RandomSource {
+  const scale = 1_000_000;
+  return {
+    randomInt: (min, max) => (random.randomInt(0, scale) < bias * scale ? min : random.randomInt(min, max)),
+    randomBytes: (size) => random.randomBytes(size),
+  };
+}
+
+interface CharInfo {
+  /** Index across the whole charset */
+  index: number;
+  group: number;
+  /** Index within the group */
+  offset: number;
+}
+
+function runScenario(scenario: SelfTestScenario, samples: number, alpha: number, random: RandomSource): ScenarioReport {
+  const { options } = scenario;
+  const groups = exchangeableGroups(options);
+  const chars = new Map<string, CharInfo>();
+  groups.forEach((group, g) => group.forEach((char, offset) => chars.set(char, { index: chars.size, group: g, offset })));
+
+  const passwords: CharInfo[][] = [];
+  for (let i = 0; i < samples; i++) {
+    const password = splitGraphemes(PasswordGenerator.generate(options, random));
+    if (password.length !== options.length) {
+      throw new Error(`Scenario "${scenario.name}" produced a password of length ${password.length}, expected ${options.length}`);
+    }
+    passwords.push(
+      password.map((char) => {
+        const info = chars.get(char);
+        if (!info) {
+          throw new Error(`Scenario "${scenario.name}" produced "${char}", which isn't in its charset`);
+        }
+        return info;
+      }),
+    );
+  }
+
+  const sizes = groups.map((group) => group.length);
+  const results = [frequencyTest(passwords, sizes, chars.size), positionTest(passwords, options.length, chars.size), runsTest(passwords, sizes), serialTest(passwords, sizes)].map(
+    (result): SelfTestResult => ({ ...result, passed: result.pValue >= alpha }),
+  );
+
+  return { name: scenario.name, description: scenario.description, length: options.length, charsetSize: chars.size, samples, results, passed: results.every((result) => result.passed) };
+}
+
+/**
+ * Sets of characters that must be equally likely. Without minimums that is
+ * the whole charset; with them only the characters within each class are.
+ */
+function exchangeableGroups(options: PasswordOptions): string[][] {
+  if (options.customChars) {
+    return [PasswordGenerator.effectiveCharset(options)];
+  }
+
+  const classes = PasswordGenerator.buildCharacterClasses(options);
+  return classes.every(({ min }) => min === 0) ? [classes.flatMap(({ chars }) => chars)] : classes.map(({ chars }) => chars);
+}
+
+type TestOutcome = Omit<SelfTestResult, "passed">;
+
+function frequencyTest(passwords: CharInfo[][], sizes: number[], charsetSize: number): TestOutcome {
+  const counts = new Array<number>(charsetSize).fill(0);
+  const groupTotals = new Array<number>(sizes.length).fill(0);
+  for (const info of passwords.flat()) {
+    counts[info.index]++;
+    groupTotals[info.group]++;
+  }
+
+  let statistic = 0;
+  let df = 0;
+  let start = 0;
+  sizes.forEach((size, g) => {
+    const expected = groupTotals[g] / size;
+    if (expected > 0) {
+      for (let i = start; i < start + size; i++) {
+        statistic += (counts[i] - expected) ** 2 / expected;
+      }
+      df += size - 1;
+    }
+    start += size;
+  });
+
+  return { test: "frequency", statistic, df, pValue: df > 0 ? chiSquarePValue(statistic, df) : 1 };
+}
+
+/** Homogeneity of the character distribution across positions */
+function positionTest(passwords: CharInfo[][], length: number, charsetSize: number): TestOutcome {
+  const table = Array.from({ length }, () => new Array<number>(charsetSize).fill(0));
+  const totals = new Array<number>(charsetSize).fill(0);
+  for (const password of passwords) {
+    password.forEach((info, position) => {
+      table[position][info.index]++;
+      totals[info.index]++;
+    });
+  }
+
+  let statistic = 0;
+  for (let char = 0; char < charsetSize; char++) {
+    const expected = totals[char] / length;
+    if (expected === 0) continue;
+    for (let position = 0; position < length; position++) {
+      statistic += (table[position][char] - expected) ** 2 / expected;
+    }
+  }
+
+  const df = (length - 1) * (totals.filter((total) => total > 0).length - 1);
+  return { test: "position", statistic, df, pValue: df > 0 ? chiSquarePValue(statistic, df) : 1 };
+}
+
+/**
+ * Adjacent equal characters, which is the same as counting runs. Given a
+ * password's class counts, two neighbours are equal with probability
+ * Σ k(k-1) / (L(L-1)·size) over the classes.
+ */
+function runsTest(passwords: CharInfo[][], sizes: number[]): TestOutcome {
+  let observed = 0;
+  let expected = 0;
+  let variance = 0;
+
+  for (const password of passwords) {
+    const length = password.length;
+    const classCounts = new Array<number>(sizes.length).fill(0);
+    password.forEach((info) => classCounts[info.group]++);
+
+    const probability = classCounts.reduce((sum, count, g) => sum + (count * (count - 1)) / (length * (length - 1) * sizes[g]), 0);
+    expected += (length - 1) * probability;
+    variance += (length - 1) * probability * (1 - probability);
+
+    for (let i = 1; i < length; i++) {
+      if (password[i].index === password[i - 1].index) observed++;
+    }
+  }
+
+  const statistic = variance > 0 ? (observed - expected) / Math.sqrt(variance) : 0;
+  return { test: "runs", statistic, pValue: twoSidedNormalPValue(statistic) };
+}
+
+/**
+ * Lag-1 correlation of each character's position within its class, centred
+ * on zero. Those positions are independent of the class layout, so the
+ * correlation is zero for a healthy generator even with minimums.
+ */
+function serialTest(passwords: CharInfo[][], sizes: number[]): TestOutcome {
+  const centred = (info: CharInfo) => (info.offset + 0.5) / sizes[info.group] - 0.5;
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  for (const password of passwords) {
+    for (let i = 1; i < password.length; i++) {
+      const product = centred(password[i - 1]) * centred(password[i]);
+      sum += product;
+      sumOfSquares += product * product;
+    }
+  }
+
+  const statistic = sumOfSquares > 0 ? sum / Math.sqrt(sumOfSquares) : 0;
+  return { test: "serial", statistic, pValue: twoSidedNormalPValue(statistic) };
+}
@@ -0,0 +1,77 @@
+/**
+ * The few distribution functions `selftest` needs to turn test statistics into
+ * p-values. Accurate to well below the significance levels anyone uses.
+ */
+
+const EPSILON = 1e-15;
+const MAX_ITERATIONS = 100_000;
+
+/** P(X ≥ statistic) for X chi-square distributed with `df` degrees of freedom */
+export function chiSquarePValue(statistic: number, df: number): number {
+  if (df <= 0) {
+    throw new RangeError(`Degrees of freedom must be positive, got ${df}`);
+  }
+  return statistic <= 0 ? 1 : upperRegularizedGamma(df / 2, statistic / 2);
+}
+
+/** P(|Z| ≥ |z|) for a standard normal Z */
+export function twoSidedNormalPValue(z: number): number {
+  return Math.min(1, erfc(Math.abs(z) / Math.SQRT2));
+}
+
+/** Q(a, x) = Γ(a, x) / Γ(a), by series below a + 1 and a continued fraction above */
+function upperRegularizedGamma(a: number, x: number): number {
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * EPSILON; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Modified Lentz's method
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let result = d;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < tiny ? tiny : d;
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.min(1, result * Math.exp(logPrefix));
+}
+
+// Lanczos approximation, g = 7
+const LANCZOS = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (shifted + i);
+  }
+  const t = shifted + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** erfc(x) = Q(1/2, x²) for x ≥ 0, which keeps precision far out in the tail */
+function erfc(x: number): number {
+  return x === 0 ? 1 : upperRegularizedGamma(0.5, x * x);
+}
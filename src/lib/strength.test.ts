@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { estimateStrength } from "./strength.js";
+
+describe("estimateStrength", () => {
+  it.each([
+    ["Xk9#mP", 1],
+    ["aB3$eF7!", 2],
+    ["Xk9#mP2$vL", 3],
+    ["Xk9#mP2$vLq7", 4],
+  ] as const)("scores the random password %s by its length alone", (password, score) => {
+    const result = estimateStrength(password);
+
+    expect(result.score).toBe(score);
+    expect(result.guessesLog10).toBeCloseTo(password.length, 5);
+    expect(result.sequence.map((match) => match.pattern)).toEqual(["bruteforce"]);
+  });
+
+  it.each(["Xk9#mP", "aB3$eF7!", "Q7!zR2", "Zz9@Yx8#"])("doesn't call %s strong when a fast offline attack cracks it within the hour", (password) => {
+    const result = estimateStrength(password);
+
+    expect(result.crackTimes.offlineFastHash.seconds).toBeLessThan(3600);
+    expect(result.score).toBeLessThan(3);
+  });
+
+  it.each(["password", "P@ssw0rd", "qwertyuiop", "aaaaaaaaaa", "abcdefgh"])("scores the guessable %s 0", (password) => {
+    expect(estimateStrength(password).score).toBe(0);
+  });
+
+  it("recognises the patterns in a guessable password", () => {
+    const patterns = estimateStrength("P@ssw0rd1990").sequence.map((match) => match.pattern);
+
+    expect(patterns).toEqual(["dictionary", "year"]);
+  });
+
+  it("scores a long passphrase 4", () => {
+    expect(estimateStrength("correct-horse-battery-staple").score).toBe(4);
+  });
+});
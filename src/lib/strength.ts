@@ -0,0 +1,763 @@
+import { COMMON_PASSWORDS } from "./wordlists/common-passwords.js";
+import { EFF_LARGE_WORDLIST } from "./wordlists/eff-large.js";
+
+/**
+ * Offline password strength estimator modelled on zxcvbn: the password is
+ * split into the sequence of patterns (dictionary words, keyboard walks,
+ * dates, repeats, sequences, brute-forced runs) that an attacker could guess
+ * most cheaply, and the product of their guess counts is the estimate.
+ */
+
+export type AttackModel = "onlineThrottled" | "onlineUnthrottled" | "offlineSlowHash" | "offlineFastHash";
+export type StrengthLevel = "Very Weak" | "Weak" | "Fair" | "Strong" | "Very Strong";
+export type MatchPattern = "dictionary" | "spatial" | "repeat" | "sequence" | "year" | "date" | "bruteforce";
+
+export const ATTACK_MODELS: Record<AttackModel, { label: string; guessesPerSecond: number }> = {
+  onlineThrottled: { label: "Online, throttled (100/hour)", guessesPerSecond: 100 / 3600 },
+  onlineUnthrottled: { label: "Online, unthrottled (10/s)", guessesPerSecond: 10 },
+  offlineSlowHash: { label: "Offline, slow hash (10k/s)", guessesPerSecond: 1e4 },
+  offlineFastHash: { label: "Offline, fast hash (10B/s)", guessesPerSecond: 1e10 },
+};
+
+export interface StrengthMatch {
+  pattern: MatchPattern;
+  i: number;
+  j: number;
+  token: string;
+  guesses: number;
+  dictionary?: "passwords" | "english";
+  matchedWord?: string;
+  rank?: number;
+  reversed?: boolean;
+  l33tSubs?: Record<string, string>;
+  graph?: "qwerty" | "keypad";
+  turns?: number;
+  shiftedCount?: number;
+  baseToken?: string;
+  baseGuesses?: number;
+  repeatCount?: number;
+  ascending?: boolean;
+  year?: number;
+  separator?: string;
+}
+
+export interface StrengthResult {
+  score: 0 | 1 | 2 | 3 | 4;
+  level: StrengthLevel;
+  guesses: number;
+  guessesLog10: number;
+  entropyBits: number;
+  crackTimes: Record<AttackModel, { seconds: number; display: string }>;
+  sequence: StrengthMatch[];
+  warning: string;
+  feedback: string[];
+}
+
+const LEVELS: StrengthLevel[] = ["Very Weak", "Weak", "Fair", "Strong", "Very Strong"];
+const REFERENCE_YEAR = new Date().getFullYear();
+const MIN_YEAR_SPACE = 20;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10_000;
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_DICTIONARY_WORD_LENGTH = 3;
+// zxcvbn's flat guesses per brute-forced character. Counting the real alphabet
+// scores short random strings 4/4 while a fast offline attack cracks them in minutes
+const BRUTEFORCE_CARDINALITY = 10;
+
+// ---------------------------------------------------------------------------
+// Dictionaries
+// ---------------------------------------------------------------------------
+
+const DICTIONARY = buildDictionary();
+
+function buildDictionary(): Map<string, { rank: number; dictionary: "passwords" | "english" }> {
+  const dictionary = new Map<string, { rank: number; dictionary: "passwords" | "english" }>();
+
+  // The EFF list isn't frequency ordered, so every word costs an attacker half the list on average
+  const englishRank = Math.ceil(EFF_LARGE_WORDLIST.length / 2);
+  for (const word of EFF_LARGE_WORDLIST) {
+    dictionary.set(word, { rank: englishRank, dictionary: "english" });
+  }
+
+  COMMON_PASSWORDS.forEach((word, index) => {
+    const existing = dictionary.get(word);
+    if (!existing || existing.rank > index + 1) {
+      dictionary.set(word, { rank: index + 1, dictionary: "passwords" });
+    }
+  });
+
+  return dictionary;
+}
+
+const L33T_TABLE: Record<string, string[]> = {
+  a: ["4", "@"],
+  b: ["8"],
+  c: ["(", "{", "[", "<"],
+  e: ["3"],
+  g: ["6", "9"],
+  i: ["1", "!", "|"],
+  l: ["1", "|", "7"],
+  o: ["0"],
+  s: ["$", "5"],
+  t: ["+", "7"],
+  x: ["%"],
+  z: ["2"],
+};
+
+// ---------------------------------------------------------------------------
+// Keyboard graphs
+// ---------------------------------------------------------------------------
+
+interface KeyboardGraph {
+  name: "qwerty" | "keypad";
+  keyOf: Map<string, { key: number; shifted: boolean }>;
+  neighbors: Map<number, Map<number, string>>;
+  startingPositions: number;
+  averageDegree: number;
+}
+
+const QWERTY_ROWS = [
+  { offset: 0, keys: ["`~", "1!", "2@", "3#", "4$", "5%", "6^", "7&", "8*", "9(", "0)", "-_", "=+"] },
+  { offset: 1.5, keys: ["qQ", "wW", "eE", "rR", "tT", "yY", "uU", "iI", "oO", "pP", "[{", "]}", "\\|"] },
+  { offset: 1.75, keys: ["aA", "sS", "dD", "fF", "gG", "hH", "jJ", "kK", "lL", ";:", "'\""] },
+  { offset: 2.25, keys: ["zZ", "xX", "cC", "vV", "bB", "nN", "mM", ",<", ".>", "/?"] },
+];
+
+const KEYPAD_ROWS = [
+  { offset: 1, keys: ["/", "*", "-"] },
+  { offset: 0, keys: ["7", "8", "9", "+"] },
+  { offset: 0, keys: ["4", "5", "6"] },
+  { offset: 0, keys: ["1", "2", "3"] },
+  { offset: 0, keys: ["0", "", "."] },
+];
+
+const GRAPHS: KeyboardGraph[] = [
+  buildGraph("qwerty", QWERTY_ROWS, (dx, dy) => (dy === 0 ? Math.abs(dx) === 1 : Math.abs(dy) === 1 && Math.abs(dx) <= 0.75)),
+  buildGraph("keypad", KEYPAD_ROWS, (dx, dy) => Math.abs(dx) <= 1 && Math.abs(dy) <= 1 && (dx !== 0 || dy !== 0)),
+];
+
+function buildGraph(
+  name: KeyboardGraph["name"],
+  rows: { offset: number; keys: string[] }[],
+  isAdjacent: (dx: number, dy: number) => boolean,
+): KeyboardGraph {
+  const positions: { x: number; y: number }[] = [];
+  const keyOf = new Map<string, { key: number; shifted: boolean }>();
+
+  rows.forEach((row, y) => {
+    row.keys.forEach((glyphs, column) => {
+      if (!glyphs) return;
+      const key = positions.length;
+      positions.push({ x: row.offset + column, y });
+      [...glyphs].forEach((glyph, index) => keyOf.set(glyph, { key, shifted: index === 1 }));
+    });
+  });
+
+  const neighbors = new Map<number, Map<number, string>>();
+  let degreeSum = 0;
+
+  positions.forEach((from, a) => {
+    const adjacent = new Map<number, string>();
+    positions.forEach((to, b) => {
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      if (a !== b && isAdjacent(dx, dy)) {
+        adjacent.set(b, `${dy},${Math.sign(dx)}`);
+      }
+    });
+    neighbors.set(a, adjacent);
+    degreeSum += adjacent.size;
+  });
+
+  return { name, keyOf, neighbors, startingPositions: positions.length, averageDegree: degreeSum / positions.length };
+}
+
+// ---------------------------------------------------------------------------
+// Matchers
+// ---------------------------------------------------------------------------
+
+function dictionaryMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  const lower = password.toLowerCase();
+
+  for (let i = 0; i < lower.length; i++) {
+    for (let j = i + MIN_DICTIONARY_WORD_LENGTH - 1; j < lower.length; j++) {
+      const word = lower.slice(i, j + 1);
+      const entry = DICTIONARY.get(word);
+      if (entry) {
+        matches.push({ pattern: "dictionary", i, j, token: password.slice(i, j + 1), guesses: 0, matchedWord: word, ...entry });
+      }
+    }
+  }
+
+  return matches;
+}
+
+function reversedDictionaryMatches(password: string): StrengthMatch[] {
+  const reversed = password.split("").reverse().join("");
+
+  return dictionaryMatches(reversed)
+    .filter((match) => match.token.length > 1 && match.token !== match.token.split("").reverse().join(""))
+    .map((match) => ({
+      ...match,
+      token: match.token.split("").reverse().join(""),
+      i: password.length - 1 - match.j,
+      j: password.length - 1 - match.i,
+      reversed: true,
+    }));
+}
+
+function l33tMatches(password: string): StrengthMatch[] {
+  const candidates = new Map<string, string[]>();
+  for (const [letter, subs] of Object.entries(L33T_TABLE)) {
+    for (const sub of subs) {
+      if (password.includes(sub)) {
+        candidates.set(sub, [...(candidates.get(sub) ?? []), letter]);
+      }
+    }
+  }
+
+  if (candidates.size === 0) return [];
+
+  // Every combination of substitutions, capped so pathological inputs stay fast
+  let substitutions: Record<string, string>[] = [{}];
+  for (const [sub, letters] of candidates) {
+    substitutions = substitutions.flatMap((existing) => letters.map((letter) => ({ ...existing, [sub]: letter }))).slice(0, 64);
+  }
+
+  const matches: StrengthMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const substitution of substitutions) {
+    const translated = [...password].map((char) => substitution[char] ?? char).join("");
+
+    for (const match of dictionaryMatches(translated)) {
+      const token = password.slice(match.i, match.j + 1);
+      const used = Object.fromEntries(Object.entries(substitution).filter(([sub]) => token.includes(sub)));
+      const key = `${match.i}:${match.j}:${match.matchedWord}`;
+
+      if (Object.keys(used).length === 0 || token.toLowerCase() === match.matchedWord || seen.has(key)) continue;
+
+      seen.add(key);
+      matches.push({ ...match, token, l33tSubs: used });
+    }
+  }
+
+  return matches;
+}
+
+function spatialMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+
+  for (const graph of GRAPHS) {
+    let i = 0;
+
+    while (i < password.length - 1) {
+      let j = i + 1;
+      let lastDirection: string | null = null;
+      let turns = 0;
+      let shiftedCount = graph.keyOf.get(password[i])?.shifted ? 1 : 0;
+
+      while (j < password.length) {
+        const previous = graph.keyOf.get(password[j - 1]);
+        const current = graph.keyOf.get(password[j]);
+        const direction = previous && current ? graph.neighbors.get(previous.key)?.get(current.key) : undefined;
+
+        if (!direction) break;
+        if (direction !== lastDirection) {
+          turns++;
+          lastDirection = direction;
+        }
+        if (current?.shifted) shiftedCount++;
+        j++;
+      }
+
+      if (j - i >= 3) {
+        matches.push({ pattern: "spatial", i, j: j - 1, token: password.slice(i, j), guesses: 0, graph: graph.name, turns, shiftedCount });
+      }
+
+      i = j;
+    }
+  }
+
+  return matches;
+}
+
+function repeatMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  const greedy = /(.+)\1+/gu;
+  const lazy = /(.+?)\1+/gu;
+  const lazyAnchored = /^(.+?)\1+$/u;
+  let lastIndex = 0;
+
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lastIndex;
+    lazy.lastIndex = lastIndex;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+
+    if (!greedyMatch || !lazyMatch) break;
+
+    const [match, baseToken] =
+      greedyMatch[0].length > lazyMatch[0].length ? [greedyMatch, lazyAnchored.exec(greedyMatch[0])?.[1] ?? greedyMatch[1]] : [lazyMatch, lazyMatch[1]];
+    const i = match.index;
+    const j = i + match[0].length - 1;
+    const baseGuesses = analyze(baseToken).guesses;
+
+    matches.push({
+      pattern: "repeat",
+      i,
+      j,
+      token: match[0],
+      guesses: 0,
+      baseToken,
+      baseGuesses,
+      repeatCount: match[0].length / baseToken.length,
+    });
+
+    lastIndex = j + 1;
+  }
+
+  return matches;
+}
+
+function sequenceMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  if (password.length < 3) return matches;
+
+  const update = (i: number, j: number, delta: number) => {
+    const token = password.slice(i, j + 1);
+    if (j - i >= 2 && Math.abs(delta) >= 1 && Math.abs(delta) <= 5 && /^(?:[a-z]+|[A-Z]+|\d+)$/.test(token)) {
+      matches.push({ pattern: "sequence", i, j, token, guesses: 0, ascending: delta > 0 });
+    }
+  };
+
+  let i = 0;
+  let lastDelta: number | null = null;
+
+  for (let k = 1; k < password.length; k++) {
+    const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+    if (lastDelta === null) lastDelta = delta;
+    if (delta === lastDelta) continue;
+
+    update(i, k - 1, lastDelta);
+    i = k - 1;
+    lastDelta = delta;
+  }
+
+  update(i, password.length - 1, lastDelta ?? 0);
+  return matches;
+}
+
+function yearMatches(password: string): StrengthMatch[] {
+  return [...password.matchAll(/19\d\d|20\d\d/g)].map((match) => ({
+    pattern: "year" as const,
+    i: match.index!,
+    j: match.index! + 3,
+    token: match[0],
+    guesses: 0,
+    year: parseInt(match[0], 10),
+  }));
+}
+
+const DATE_SPLITS: Record<number, [number, number][]> = {
+  4: [
+    [1, 2],
+    [2, 3],
+  ],
+  5: [
+    [1, 3],
+    [2, 3],
+  ],
+  6: [
+    [1, 2],
+    [2, 4],
+    [4, 5],
+  ],
+  7: [
+    [1, 3],
+    [2, 3],
+    [4, 5],
+    [4, 6],
+  ],
+  8: [
+    [2, 4],
+    [4, 6],
+  ],
+};
+
+function dateMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+
+  for (let i = 0; i < password.length; i++) {
+    for (let j = i + 3; j < Math.min(password.length, i + 10); j++) {
+      const token = password.slice(i, j + 1);
+      let candidates: number[][] = [];
+      let separator = "";
+
+      if (/^\d+$/.test(token)) {
+        candidates = (DATE_SPLITS[token.length] ?? []).map(([k, l]) => [token.slice(0, k), token.slice(k, l), token.slice(l)].map(Number));
+      } else {
+        const match = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/.exec(token);
+        if (match) {
+          candidates = [[match[1], match[3], match[4]].map(Number)];
+          separator = match[2];
+        }
+      }
+
+      const years = candidates.map(mapIntsToYear).filter((year): year is number => year !== null);
+      if (years.length === 0) continue;
+
+      const year = years.reduce((best, candidate) => (Math.abs(candidate - REFERENCE_YEAR) < Math.abs(best - REFERENCE_YEAR) ? candidate : best));
+      matches.push({ pattern: "date", i, j, token, guesses: 0, year, separator });
+    }
+  }
+
+  return matches;
+}
+
+function mapIntsToYear(ints: number[]): number | null {
+  if (ints[1] > 31 || ints[1] <= 0) return null;
+
+  let over12 = 0;
+  let over31 = 0;
+  let under1 = 0;
+  for (const value of ints) {
+    if ((value > 99 && value < 1000) || value > 2050) return null;
+    if (value > 31) over31++;
+    if (value > 12) over12++;
+    if (value <= 0) under1++;
+  }
+  if (over31 >= 2 || over12 === 3 || under1 >= 2) return null;
+
+  const isDayMonth = (a: number, b: number) => (a >= 1 && a <= 31 && b >= 1 && b <= 12) || (b >= 1 && b <= 31 && a >= 1 && a <= 12);
+  const splits: [number, number, number][] = [
+    [ints[2], ints[0], ints[1]],
+    [ints[0], ints[1], ints[2]],
+  ];
+
+  for (const [year, a, b] of splits) {
+    if (year >= 1000 && year <= 2050 && isDayMonth(a, b)) return year;
+  }
+
+  for (const [year, a, b] of splits) {
+    if (year <= 99 && isDayMonth(a, b)) return year > 50 ? 1900 + year : 2000 + year;
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Guess estimation
+// ---------------------------------------------------------------------------
+
+function nCk(n: number, k: number): number {
+  if (k > n) return 0;
+  if (k === 0) return 1;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - d + 1)) / d;
+  }
+  return result;
+}
+
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+function variations(changed: number, unchanged: number): number {
+  if (changed === 0 || unchanged === 0) return 2;
+  let total = 0;
+  for (let i = 1; i <= Math.min(changed, unchanged); i++) total += nCk(changed + unchanged, i);
+  return total;
+}
+
+function uppercaseVariations(token: string): number {
+  if (token === token.toLowerCase()) return 1;
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || token === token.toUpperCase()) return 2;
+
+  const upper = [...token].filter((char) => /[A-Z]/.test(char)).length;
+  const lower = [...token].filter((char) => /[a-z]/.test(char)).length;
+  return variations(upper, lower);
+}
+
+function l33tVariations(match: StrengthMatch): number {
+  if (!match.l33tSubs) return 1;
+
+  let total = 1;
+  const token = match.token.toLowerCase();
+  for (const [sub, letter] of Object.entries(match.l33tSubs)) {
+    const subbed = [...token].filter((char) => char === sub).length;
+    const unsubbed = [...token].filter((char) => char === letter).length;
+    total *= variations(subbed, unsubbed);
+  }
+  return total;
+}
+
+function spatialGuesses(match: StrengthMatch): number {
+  const graph = GRAPHS.find((candidate) => candidate.name === match.graph)!;
+  const length = match.token.length;
+  const turns = match.turns ?? 1;
+  let guesses = 0;
+
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += nCk(i - 1, j - 1) * graph.startingPositions * graph.averageDegree ** j;
+    }
+  }
+
+  const shifted = match.shiftedCount ?? 0;
+  if (shifted > 0) {
+    guesses *= shifted === length ? 2 : variations(shifted, length - shifted);
+  }
+
+  return guesses;
+}
+
+function estimateGuesses(match: StrengthMatch, passwordLength: number): number {
+  let guesses: number;
+
+  switch (match.pattern) {
+    case "dictionary":
+      guesses = match.rank! * uppercaseVariations(match.token) * l33tVariations(match) * (match.reversed ? 2 : 1);
+      break;
+    case "spatial":
+      guesses = spatialGuesses(match);
+      break;
+    case "repeat":
+      guesses = match.baseGuesses! * match.repeatCount!;
+      break;
+    case "sequence": {
+      const first = match.token[0];
+      const base = "aAzZ019".includes(first) ? 4 : /\d/.test(first) ? 10 : 26;
+      guesses = base * (match.ascending ? 1 : 2) * match.token.length;
+      break;
+    }
+    case "year":
+      guesses = Math.max(Math.abs(match.year! - REFERENCE_YEAR), MIN_YEAR_SPACE);
+      break;
+    case "date":
+      guesses = Math.max(Math.abs(match.year! - REFERENCE_YEAR), MIN_YEAR_SPACE) * 365 * (match.separator ? 4 : 1);
+      break;
+    case "bruteforce": {
+      const minimum = match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR + 1 : MIN_SUBMATCH_GUESSES_MULTI_CHAR + 1;
+      guesses = Math.max(BRUTEFORCE_CARDINALITY ** match.token.length, minimum);
+      break;
+    }
+  }
+
+  if (match.pattern !== "bruteforce" && match.token.length < passwordLength) {
+    const minimum = match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR;
+    guesses = Math.max(guesses, minimum);
+  }
+
+  return guesses;
+}
+
+function mostGuessableSequence(password: string, matches: StrengthMatch[]): { guesses: number; sequence: StrengthMatch[] } {
+  const n = password.length;
+  if (n === 0) return { guesses: 1, sequence: [] };
+
+  const byEnd: StrengthMatch[][] = Array.from({ length: n }, () => []);
+  for (const match of matches) {
+    match.guesses = estimateGuesses(match, n);
+    byEnd[match.j].push(match);
+  }
+
+  // optimal[k] maps sequence length l to the best l-match sequence covering password[0..k]
+  const optimal = Array.from({ length: n }, () => new Map<number, { match: StrengthMatch; pi: number; g: number }>());
+
+  const update = (match: StrengthMatch, l: number) => {
+    const k = match.j;
+    let pi = match.guesses;
+    if (l > 1) pi *= optimal[match.i - 1].get(l - 1)!.pi;
+
+    const g = factorial(l) * pi + MIN_GUESSES_BEFORE_GROWING_SEQUENCE ** (l - 1);
+    for (const [competingL, competing] of optimal[k]) {
+      if (competingL <= l && competing.g <= g) return;
+    }
+
+    optimal[k].set(l, { match, pi, g });
+  };
+
+  const bruteforce = (i: number, j: number): StrengthMatch => {
+    const match: StrengthMatch = { pattern: "bruteforce", i, j, token: password.slice(i, j + 1), guesses: 0 };
+    match.guesses = estimateGuesses(match, n);
+    return match;
+  };
+
+  for (let k = 0; k < n; k++) {
+    for (const match of byEnd[k]) {
+      if (match.i > 0) {
+        for (const l of [...optimal[match.i - 1].keys()]) update(match, l + 1);
+      } else {
+        update(match, 1);
+      }
+    }
+
+    update(bruteforce(0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      const match = bruteforce(i, k);
+      for (const [l, previous] of [...optimal[i - 1]]) {
+        if (previous.match.pattern !== "bruteforce") update(match, l + 1);
+      }
+    }
+  }
+
+  let bestL = 0;
+  let bestG = Infinity;
+  for (const [l, candidate] of optimal[n - 1]) {
+    if (candidate.g < bestG || bestL === 0) {
+      bestL = l;
+      bestG = candidate.g;
+    }
+  }
+
+  const sequence: StrengthMatch[] = [];
+  let k = n - 1;
+  let l = bestL;
+  while (k >= 0) {
+    const { match } = optimal[k].get(l)!;
+    sequence.unshift(match);
+    k = match.i - 1;
+    l--;
+  }
+
+  return { guesses: Math.min(bestG, Number.MAX_VALUE), sequence };
+}
+
+function analyze(password: string): { guesses: number; sequence: StrengthMatch[] } {
+  const matches = [
+    ...dictionaryMatches(password),
+    ...reversedDictionaryMatches(password),
+    ...l33tMatches(password),
+    ...spatialMatches(password),
+    ...repeatMatches(password),
+    ...sequenceMatches(password),
+    ...yearMatches(password),
+    ...dateMatches(password),
+  ];
+
+  return mostGuessableSequence(password, matches);
+}
+
+// ---------------------------------------------------------------------------
+// Scoring and feedback
+// ---------------------------------------------------------------------------
+
+function scoreFromGuesses(guesses: number): StrengthResult["score"] {
+  const delta = 5;
+  if (guesses < 1e3 + delta) return 0;
+  if (guesses < 1e6 + delta) return 1;
+  if (guesses < 1e8 + delta) return 2;
+  if (guesses < 1e10 + delta) return 3;
+  return 4;
+}
+
+export function formatCrackTime(seconds: number): string {
+  const minute = 60;
+  const hour = minute * 60;
+  const day = hour * 24;
+  const month = day * 31;
+  const year = month * 12;
+  const century = year * 100;
+
+  const units: [number, string][] = [
+    [year, "year"],
+    [month, "month"],
+    [day, "day"],
+    [hour, "hour"],
+    [minute, "minute"],
+    [1, "second"],
+  ];
+
+  if (seconds < 1) return "less than a second";
+  if (seconds >= century) return "centuries";
+
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      const value = Math.round(seconds / size);
+      return `${value} ${unit}${value === 1 ? "" : "s"}`;
+    }
+  }
+
+  return "less than a second";
+}
+
+function buildFeedback(score: number, sequence: StrengthMatch[]): { warning: string; feedback: string[] } {
+  if (sequence.length === 0) {
+    return { warning: "", feedback: ["Use a few words, avoid common phrases", "No need for symbols, digits, or uppercase letters"] };
+  }
+
+  if (score > 2) return { warning: "", feedback: [] };
+
+  const longest = sequence.reduce((best, match) => (match.token.length > best.token.length ? match : best));
+  const extra = "Add another word or two. Uncommon words are better";
+  let warning = "";
+  const feedback: string[] = [];
+
+  switch (longest.pattern) {
+    case "dictionary": {
+      const isSoleMatch = sequence.length === 1;
+      if (longest.dictionary === "passwords") {
+        warning = isSoleMatch && !longest.l33tSubs && !longest.reversed ? (longest.rank! <= 10 ? "This is a top-10 common password" : longest.rank! <= 100 ? "This is a top-100 common password" : "This is a very common password") : "This is similar to a commonly used password";
+      } else if (isSoleMatch) {
+        warning = "A word by itself is easy to guess";
+      }
+
+      if (/^[A-Z][^A-Z]+$/.test(longest.token)) feedback.push("Capitalization doesn't help very much");
+      else if (longest.token === longest.token.toUpperCase() && longest.token !== longest.token.toLowerCase()) {
+        feedback.push("All-uppercase is almost as easy to guess as all-lowercase");
+      }
+      if (longest.reversed) feedback.push("Reversed words aren't much harder to guess");
+      if (longest.l33tSubs) feedback.push("Predictable substitutions like '@' instead of 'a' don't help very much");
+      break;
+    }
+    case "spatial":
+      warning = longest.turns === 1 ? "Straight rows of keys are easy to guess" : "Short keyboard patterns are easy to guess";
+      feedback.push("Use a longer keyboard pattern with more turns");
+      break;
+    case "repeat":
+      warning = longest.baseToken!.length === 1 ? 'Repeats like "aaa" are easy to guess' : 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"';
+      feedback.push("Avoid repeated words and characters");
+      break;
+    case "sequence":
+      warning = "Sequences like abc or 6543 are easy to guess";
+      feedback.push("Avoid sequences");
+      break;
+    case "year":
+      warning = "Recent years are easy to guess";
+      feedback.push("Avoid recent years", "Avoid years that are associated with you");
+      break;
+    case "date":
+      warning = "Dates are often easy to guess";
+      feedback.push("Avoid dates and years that are associated with you");
+      break;
+  }
+
+  return { warning, feedback: [extra, ...feedback] };
+}
+
+export function estimateStrength(password: string): StrengthResult {
+  const { guesses, sequence } = analyze(password);
+  const score = scoreFromGuesses(guesses);
+  const crackTimes = Object.fromEntries(
+    Object.entries(ATTACK_MODELS).map(([model, { guessesPerSecond }]) => {
+      const seconds = guesses / guessesPerSecond;
+      return [model, { seconds, display: formatCrackTime(seconds) }];
+    }),
+  ) as StrengthResult["crackTimes"];
+
+  return {
+    score,
+    level: LEVELS[score],
+    guesses,
+    guessesLog10: Math.log10(guesses),
+    entropyBits: Math.log2(guesses),
+    crackTimes,
+    sequence,
+    ...buildFeedback(score, sequence),
+  };
+}
@@ -0,0 +1,175 @@
+import crypto from "node:crypto";
+import { ValidationError } from "./errors.js";
+
+/**
+ * Machine secrets: random bytes in the encodings services expect (hex,
+ * base64, Crockford base32), UUIDs, ULIDs and prefixed API keys. API keys end
+ * in a CRC32 checksum, GitHub-style, so typos and truncated copies can be
+ * rejected offline without knowing the key.
+ */
+
+export const TOKEN_FORMATS = ["hex", "base64", "base64url", "base32", "uuid", "uuidv7", "ulid", "api-key"] as const;
+
+export type TokenFormat = (typeof TOKEN_FORMATS)[number];
+
+export interface TokenOptions {
+  format: TokenFormat;
+  /** Random bytes for hex, base64, base32 and API keys; fixed for UUIDs and ULIDs */
+  bytes: number;
+  /** API key prefix, e.g. "sk" for sk_… */
+  prefix: string;
+}
+
+export interface Token {
+  value: string;
+  /** Bits that come from the CSPRNG; timestamps and fixed fields don't count */
+  entropyBits: number;
+}
+
+export interface ApiKeyCheck {
+  valid: boolean;
+  prefix?: string;
+  reason?: string;
+}
+
+export const MIN_TOKEN_BYTES = 8;
+export const MAX_TOKEN_BYTES = 1024;
+export const DEFAULT_TOKEN_BYTES = 32;
+export const DEFAULT_API_KEY_PREFIX = "sk";
+
+const CROCKFORD_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const BASE62_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const API_KEY_PREFIX_PATTERN = /^[a-z][a-z0-9]{1,15}$/;
+const API_KEY_PATTERN = /^([a-z][a-z0-9]{1,15})_([0-9A-Za-z]+)$/;
+// CRC32 fits in six base62 digits (62^6 > 2^32)
+const CHECKSUM_LENGTH = 6;
+
+export function generateToken(options: TokenOptions): Token {
+  switch (options.format) {
+    case "hex":
+      return { value: randomBytes(options.bytes).toString("hex"), entropyBits: options.bytes * 8 };
+    case "base64":
+      return { value: randomBytes(options.bytes).toString("base64"), entropyBits: options.bytes * 8 };
+    case "base64url":
+      return { value: randomBytes(options.bytes).toString("base64url"), entropyBits: options.bytes * 8 };
+    case "base32":
+      return { value: encodeCrockford(randomBytes(options.bytes)), entropyBits: options.bytes * 8 };
+    case "uuid":
+      return { value: crypto.randomUUID(), entropyBits: 122 };
+    case "uuidv7":
+      return { value: generateUuidV7(), entropyBits: 74 };
+    case "ulid":
+      return { value: generateUlid(), entropyBits: 80 };
+    case "api-key":
+      return { value: generateApiKey(options.prefix, options.bytes), entropyBits: options.bytes * 8 };
+  }
+}
+
+/** `<prefix>_<base62 random><base62 CRC32 of everything before it>` */
+export function generateApiKey(prefix: string, bytes: number): string {
+  if (!API_KEY_PREFIX_PATTERN.test(prefix)) {
+    throw new ValidationError("API key prefixes must be 2-16 lowercase letters or digits, starting with a letter");
+  }
+
+  const length = Math.ceil((bytes * 8) / Math.log2(62));
+  const body = encodeBase62(BigInt("0x" + randomBytes(bytes).toString("hex")), length);
+  return `${prefix}_${body}${checksum(`${prefix}_${body}`)}`;
+}
+
+export function verifyApiKey(key: string): ApiKeyCheck {
+  const match = API_KEY_PATTERN.exec(key.trim());
+  if (!match || match[2].length <= CHECKSUM_LENGTH) {
+    return { valid: false, reason: "not in <prefix>_<key> form" };
+  }
+
+  const [, prefix, rest] = match;
+  const body = rest.slice(0, -CHECKSUM_LENGTH);
+  const expected = checksum(`${prefix}_${body}`);
+
+  return expected === rest.slice(-CHECKSUM_LENGTH) ? { valid: true, prefix } : { valid: false, prefix, reason: "checksum mismatch" };
+}
+
+/** Crockford base32, most significant bits first; the last group is zero-padded */
+export function encodeCrockford(bytes: Buffer): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += CROCKFORD_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+
+  if (bits > 0) {
+    output += CROCKFORD_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/** RFC 9562 UUIDv7: 48-bit Unix milliseconds, then random bits, so values sort by creation time */
+function generateUuidV7(now = Date.now()): string {
+  const bytes = randomBytes(16);
+  bytes.writeUIntBE(now, 0, 6);
+  bytes[6] = 0x70 | (bytes[6] & 0x0f);
+  bytes[8] = 0x80 | (bytes[8] & 0x3f);
+
+  const hex = bytes.toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/** ULID: 48-bit Unix milliseconds and 80 random bits as 26 Crockford base32 characters */
+function generateUlid(now = Date.now()): string {
+  const bytes = Buffer.concat([Buffer.alloc(6), randomBytes(10)]);
+  bytes.writeUIntBE(now, 0, 6);
+
+  let value = BigInt("0x" + bytes.toString("hex"));
+  let output = "";
+  for (let i = 0; i < 26; i++) {
+    output = CROCKFORD_ALPHABET[Number(value & 31n)] + output;
+    value >>= 5n;
+  }
+  return output;
+}
+
+function encodeBase62(value: bigint, length: number): string {
+  let output = "";
+  let rest = value;
+  for (let i = 0; i < length; i++) {
+    output = BASE62_ALPHABET[Number(rest % 62n)] + output;
+    rest /= 62n;
+  }
+  return output;
+}
+
+function checksum(text: string): string {
+  return encodeBase62(BigInt(crc32(Buffer.from(text, "utf8"))), CHECKSUM_LENGTH);
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function randomBytes(size: number): Buffer {
+  if (!Number.isInteger(size) || size < MIN_TOKEN_BYTES || size > MAX_TOKEN_BYTES) {
+    throw new ValidationError(`Byte count must be between ${MIN_TOKEN_BYTES} and ${MAX_TOKEN_BYTES}`);
+  }
+  return crypto.randomBytes(size);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { parseExport, serializeExport, type ParsedExport, type PortableItem } from "./export-formats.js";
+import type { HistoryEntry } from "./history.js";
+import { planImport } from "./transfer.js";
+import type { VaultEntry } from "./vault.js";
+
+const entry = (site: string, username: string | undefined, password: string): VaultEntry => ({
+  id: crypto.randomUUID(),
+  site,
+  username,
+  password,
+  tags: [],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+const item = (name: string, username: string | undefined, password: string): PortableItem => ({ name, username, password, tags: [] });
+
+const historyEntry = (id: string, password: string): HistoryEntry => ({
+  id,
+  password,
+  options: { length: password.length, includeUppercase: true, includeLowercase: true, includeNumbers: true, includeSymbols: false, includeExtraSymbols: false },
+  createdAt: "2024-03-01T00:00:00.000Z",
+});
+
+const parsed = (items: PortableItem[], history: HistoryEntry[] = []): ParsedExport => ({ items, history, skipped: [] });
+
+describe("planImport", () => {
+  it("sorts items into new, duplicate and conflicting against the vault", () => {
+    const vault = [entry("GitHub.com", "Alice", "same"), entry("example.com", undefined, "old")];
+    const plan = planImport(parsed([item("github.com", "alice", "same"), item("example.com", undefined, "new"), item("gitlab.com", "alice", "x")]), vault, []);
+
+    expect(plan.duplicates.map((duplicate) => duplicate.name)).toEqual(["github.com"]);
+    expect(plan.conflicts).toEqual([{ item: item("example.com", undefined, "new"), existing: vault[1] }]);
+    expect(plan.added.map((added) => added.site)).toEqual(["gitlab.com"]);
+  });
+
+  it("compares only with the vault as it was, so repeated sites in the file are all added", () => {
+    const plan = planImport(parsed([item("github.com", "alice", "one"), item("github.com", "alice", "two"), item("gmana history", undefined, "a"), item("gmana history", undefined, "b")]), [], []);
+
+    expect(plan.added).toHaveLength(4);
+    expect(plan.duplicates).toEqual([]);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it("skips history entries that are already there", () => {
+    const known = historyEntry("4a1f0c2e-0000-4000-8000-000000000001", "known");
+    const fresh = historyEntry("4a1f0c2e-0000-4000-8000-000000000002", "fresh");
+    const plan = planImport(parsed([], [known, fresh, fresh]), [], [known]);
+
+    expect(plan.history).toEqual([fresh]);
+    expect(plan.historyDuplicates).toBe(2);
+  });
+
+  it("imports an export with history into an empty vault without conflicts", () => {
+    const vault = [entry("github.com", "alice", "pw1"), entry("github.com", "alice", "pw2"), entry("example.com", undefined, "pw3")];
+    const history = ["h1", "h2", "h3"].map((password, i) => historyEntry(`4a1f0c2e-0000-4000-8000-00000000001${i}`, password));
+    const plan = planImport(parseExport("bitwarden-json", serializeExport("bitwarden-json", { vault, history })), [], []);
+
+    expect(plan.added.map((added) => added.password)).toEqual(["pw1", "pw2", "pw3"]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.duplicates).toEqual([]);
+    expect(plan.history.map((imported) => imported.password)).toEqual(["h1", "h2", "h3"]);
+  });
+
+  it("finds nothing new when the same export is imported twice", () => {
+    const vault = [entry("github.com", "alice", "pw1")];
+    const history = [historyEntry("4a1f0c2e-0000-4000-8000-000000000020", "h1")];
+    const text = serializeExport("keepass-xml", { vault, history });
+    const first = planImport(parseExport("keepass-xml", text), [], []);
+    const second = planImport(parseExport("keepass-xml", text), first.added, first.history);
+
+    expect(second.added).toEqual([]);
+    expect(second.duplicates).toHaveLength(1);
+    expect(second.history).toEqual([]);
+    expect(second.historyDuplicates).toBe(1);
+  });
+});
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { createKdfParams, decrypt, deriveKey, encrypt, EncryptedPayloadSchema, KdfParamsSchema } from "./crypto.js";
+import { AuthError } from "./errors.js";
+import { EXPORT_FORMATS, type ExportFormat, type ParsedExport, type PortableItem } from "./export-formats.js";
+import { importHistoryEntries, type HistoryEntry } from "./history.js";
+import { appendVaultEntries, loginIdentity, replaceVaultPasswords, type VaultEntry } from "./vault.js";
+
+/**
+ * Moving data in and out of gmana. Exports are wrapped in a passphrase-encrypted
+ * envelope by default, so the file is safe to carry between machines; imports
+ * are planned first (new, duplicate, conflicting) so a dry run can report them.
+ */
+
+const EncryptedExportSchema = z.object({
+  gmanaEncryptedExport: z.literal(1),
+  format: z.enum(EXPORT_FORMATS),
+  kdf: KdfParamsSchema,
+  payload: EncryptedPayloadSchema,
+});
+
+export type EncryptedExport = z.infer<typeof EncryptedExportSchema>;
+
+export interface ImportConflict {
+  item: PortableItem;
+  existing: VaultEntry;
+}
+
+export interface ImportPlan {
+  added: VaultEntry[];
+  /** Same site, username and password as an existing entry */
+  duplicates: PortableItem[];
+  /** Same site and username as an existing entry, but a different password */
+  conflicts: ImportConflict[];
+  history: HistoryEntry[];
+  historyDuplicates: number;
+  skipped: string[];
+}
+
+export async function sealExport(content: string, format: ExportFormat, passphrase: string): Promise<string> {
+  const kdf = createKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+  const envelope: EncryptedExport = { gmanaEncryptedExport: 1, format, kdf, payload: encrypt(key, content) };
+  return JSON.stringify(envelope, null, 2) + "\n";
+}
+
+/** Returns the envelope when `text` is an encrypted gmana export, otherwise null */
+export function readEncryptedExport(text: string): EncryptedExport | null {
+  if (!text.trimStart().startsWith("{")) {
+    return null;
+  }
+
+  try {
+    const result = EncryptedExportSchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function openExport(envelope: EncryptedExport, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, envelope.kdf);
+  try {
+    return decrypt(key, envelope.payload);
+  } catch {
+    throw new AuthError("Wrong export passphrase or corrupted file");
+  }
+}
+
+/**
+ * Sorts imported items against the vault and history as they are before the
+ * import. Items are only compared with the vault, never with each other, so
+ * two entries for one site in the file both arrive as they were exported.
+ */
+export function planImport(parsed: ParsedExport, vault: VaultEntry[], history: HistoryEntry[]): ImportPlan {
+  const knownHistory = new Set(history.map((entry) => entry.id));
+  const existing = new Map<string, VaultEntry>(vault.map((entry) => [loginIdentity(entry.site, entry.username), entry]));
+  const plan: ImportPlan = { added: [], duplicates: [], conflicts: [], history: [], historyDuplicates: 0, skipped: [...parsed.skipped] };
+  const now = new Date().toISOString();
+
+  for (const item of parsed.items) {
+    const key = loginIdentity(item.name, item.username);
+    const match = existing.get(key);
+
+    if (match && match.password === item.password) {
+      plan.duplicates.push(item);
+    } else if (match) {
+      plan.conflicts.push({ item, existing: match });
+    } else {
+      const entry: VaultEntry = {
+        id: crypto.randomUUID(),
+        site: item.name.trim(),
+        url: item.url,
+        username: item.username,
+        password: item.password,
+        notes: item.notes,
+        tags: item.tags,
+        createdAt: item.createdAt ?? now,
+        updatedAt: item.updatedAt ?? item.createdAt ?? now,
+      };
+      plan.added.push(entry);
+    }
+  }
+
+  for (const entry of parsed.history) {
+    if (knownHistory.has(entry.id)) {
+      plan.historyDuplicates++;
+    } else {
+      plan.history.push(entry);
+      knownHistory.add(entry.id);
+    }
+  }
+
+  return plan;
+}
+
+/** Writes a plan; conflicting entries only get the imported password with `overwrite` */
+export async function applyImport(plan: ImportPlan, overwrite: boolean): Promise<void> {
+  if (plan.added.length > 0) {
+    await appendVaultEntries(plan.added);
+  }
+
+  if (overwrite && plan.conflicts.length > 0) {
+    await replaceVaultPasswords(new Map(plan.conflicts.map(({ item, existing }) => [existing.id, item.password])));
+  }
+
+  if (plan.history.length > 0) {
+    await importHistoryEntries(plan.history);
+  }
+}
@@ -0,0 +1,184 @@
+import fs from "fs-extra";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { NotFoundError, ValidationError } from "./errors.js";
+import { readSecureJson, writeSecureJson } from "./secure-store.js";
+
+export const VaultEntrySchema = z.object({
+  id: z.string(),
+  site: z.string().min(1),
+  url: z.string().optional(),
+  username: z.string().optional(),
+  password: z.string(),
+  notes: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const VaultSchema = z.array(VaultEntrySchema);
+
+export type VaultEntry = z.infer<typeof VaultEntrySchema>;
+
+export type VaultEntryInput = Pick<VaultEntry, "site" | "password"> & Partial<Pick<VaultEntry, "url" | "username" | "notes" | "tags">>;
+
+const CONFIG_DIR = path.join(os.homedir(), ".gmana");
+const VAULT_FILE = path.join(CONFIG_DIR, "vault.json");
+
+// Shortest id prefix accepted when looking entries up by id
+const MIN_ID_PREFIX = 4;
+
+export async function hasVault(): Promise<boolean> {
+  return fs.pathExists(VAULT_FILE);
+}
+
+export async function loadVault(): Promise<VaultEntry[]> {
+  return readSecureJson(VAULT_FILE, VaultSchema, []);
+}
+
+/**
+ * Adds an entry. A second entry for the same site and username is refused
+ * unless `force` is set, since lookups by site would then need an id.
+ */
+export async function addVaultEntry(input: VaultEntryInput, options: { force?: boolean } = {}): Promise<VaultEntry> {
+  const vault = await loadVault();
+  const existing = findLogin(vault, input.site, input.username);
+
+  if (existing && !options.force) {
+    throw duplicateLoginError(existing, `Change it with \`gmana vault edit ${existing.id.slice(0, 8)}\`, or add another with \`gmana vault add --force\``);
+  }
+
+  const now = new Date().toISOString();
+  const entry: VaultEntry = {
+    ...input,
+    id: crypto.randomUUID(),
+    site: input.site.trim(),
+    tags: normalizeTags(input.tags ?? []),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeSecureJson(VAULT_FILE, [...vault, entry]);
+  return entry;
+}
+
+/** Site as compared for duplicates and reuse: trimmed and case-insensitive */
+export function siteIdentity(site: string): string {
+  return site.trim().toLowerCase();
+}
+
+/** Site and username as compared for duplicates, both trimmed and case-insensitive */
+export function loginIdentity(site: string, username: string | undefined): string {
+  return `${siteIdentity(site)}\n${(username ?? "").trim().toLowerCase()}`;
+}
+
+/** The entry for the same site and username, other than `exceptId` (the one being edited) */
+export function findLogin(vault: VaultEntry[], site: string, username: string | undefined, exceptId?: string): VaultEntry | undefined {
+  const identity = loginIdentity(site, username);
+  return vault.find((entry) => entry.id !== exceptId && loginIdentity(entry.site, entry.username) === identity);
+}
+
+export function duplicateLoginError(existing: VaultEntry, hint: string): ValidationError {
+  const login = existing.username !== undefined ? ` with username "${existing.username}"` : "";
+  return new ValidationError(`The vault already has an entry for "${existing.site}"${login} (${existing.id.slice(0, 8)}). ${hint}`);
+}
+
+/** Appends already-built entries (e.g. from an import) in a single write */
+export async function appendVaultEntries(entries: VaultEntry[]): Promise<void> {
+  const vault = await loadVault();
+  await writeSecureJson(VAULT_FILE, [...vault, ...entries]);
+}
+
+/** Replaces the password of existing entries in a single write */
+export async function replaceVaultPasswords(passwords: Map<string, string>): Promise<void> {
+  const vault = await loadVault();
+  const now = new Date().toISOString();
+  await writeSecureJson(
+    VAULT_FILE,
+    vault.map((entry) => (passwords.has(entry.id) ? { ...entry, password: passwords.get(entry.id) ?? entry.password, updatedAt: now } : entry)),
+  );
+}
+
+/**
+ * Changes an entry's fields. Renaming it onto another entry's site and username
+ * is refused unless `force` is set, the same as adding a duplicate.
+ */
+export async function updateVaultEntry(id: string, changes: Partial<VaultEntryInput>, options: { force?: boolean } = {}): Promise<VaultEntry> {
+  const vault = await loadVault();
+  const existing = vault.find((entry) => entry.id === id);
+
+  if (!existing) {
+    throw new NotFoundError(`No vault entry with id ${id}`);
+  }
+
+  const updated: VaultEntry = {
+    ...existing,
+    ...changes,
+    site: (changes.site ?? existing.site).trim(),
+    tags: normalizeTags(changes.tags ?? existing.tags),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const renamed = loginIdentity(updated.site, updated.username) !== loginIdentity(existing.site, existing.username);
+  const duplicate = renamed ? findLogin(vault, updated.site, updated.username, id) : undefined;
+  if (duplicate && !options.force) {
+    throw duplicateLoginError(duplicate, "Pass --force to keep both");
+  }
+
+  await writeSecureJson(
+    VAULT_FILE,
+    vault.map((entry) => (entry.id === id ? updated : entry)),
+  );
+  return updated;
+}
+
+export async function removeVaultEntry(id: string): Promise<void> {
+  const vault = await loadVault();
+  await writeSecureJson(
+    VAULT_FILE,
+    vault.filter((entry) => entry.id !== id),
+  );
+}
+
+/**
+ * Finds the single entry meant by `reference`: an id (or unique id prefix) or a
+ * site name, narrowed by username when one site has several logins.
+ */
+export function resolveVaultEntry(vault: VaultEntry[], reference: string, username?: string): VaultEntry {
+  const needle = reference.trim().toLowerCase();
+  let matches = vault.filter((entry) => entry.site.toLowerCase() === needle);
+
+  if (matches.length === 0 && needle.length >= MIN_ID_PREFIX) {
+    matches = vault.filter((entry) => entry.id.startsWith(needle));
+  }
+
+  if (username !== undefined) {
+    matches = matches.filter((entry) => entry.username?.toLowerCase() === username.toLowerCase());
+  }
+
+  if (matches.length === 0) {
+    throw new NotFoundError(`No vault entry for "${reference}"${username !== undefined ? ` with username "${username}"` : ""}`);
+  }
+
+  if (matches.length > 1) {
+    const choices = matches.map((entry) => `${entry.id.slice(0, 8)} (${entry.username ?? "no username"})`).join(", ");
+    throw new ValidationError(`"${reference}" matches ${matches.length} entries: ${choices}. Pass --username or an id`);
+  }
+
+  return matches[0];
+}
+
+/** Case-insensitive match on every text field except the password */
+export function searchVault(vault: VaultEntry[], query: string): VaultEntry[] {
+  const needle = query.trim().toLowerCase();
+  return vault.filter((entry) => [entry.site, entry.url, entry.username, entry.notes, ...entry.tags].some((field) => field?.toLowerCase().includes(needle)));
+}
+
+export function parseTags(value: string): string[] {
+  return normalizeTags(value.split(","));
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
@@ -0,0 +1,114 @@
+import { ValidationError } from "./errors.js";
+
+/**
+ * Just enough XML for password manager exports: elements, attributes, text,
+ * CDATA and the predefined and numeric entities. Comments, processing
+ * instructions and doctypes are skipped; namespaces are kept as part of names.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const OPEN_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  const fail = (message: string): never => {
+    const line = source.slice(0, i).split("\n").length;
+    throw new ValidationError(`Invalid XML on line ${line}: ${message}`);
+  };
+
+  while (i < source.length) {
+    const current = stack[stack.length - 1];
+
+    if (source[i] !== "<") {
+      const end = source.indexOf("<", i);
+      current.text += decodeEntities(source.slice(i, end === -1 ? source.length : end));
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (source.startsWith("<!--", i)) {
+      i = skipPast(source, "-->", i) ?? fail("unterminated comment");
+    } else if (source.startsWith("<![CDATA[", i)) {
+      const end = source.indexOf("]]>", i);
+      if (end === -1) fail("unterminated CDATA section");
+      current.text += source.slice(i + 9, end);
+      i = end + 3;
+    } else if (source.startsWith("<?", i)) {
+      i = skipPast(source, "?>", i) ?? fail("unterminated processing instruction");
+    } else if (source.startsWith("<!", i)) {
+      i = skipPast(source, ">", i) ?? fail("unterminated declaration");
+    } else if (source.startsWith("</", i)) {
+      const end = source.indexOf(">", i);
+      if (end === -1) fail("unterminated closing tag");
+      const name = source.slice(i + 2, end).trim();
+      if (stack.length === 1 || current.name !== name) fail(`unexpected </${name}>`);
+      stack.pop();
+      i = end + 1;
+    } else {
+      OPEN_TAG.lastIndex = i;
+      const match = OPEN_TAG.exec(source);
+      if (!match) fail("malformed tag");
+
+      const [whole, name, rawAttributes, selfClosing] = match as RegExpExecArray;
+      const element: XmlElement = { name, attributes: parseAttributes(rawAttributes), children: [], text: "" };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      i += whole.length;
+    }
+  }
+
+  if (stack.length > 1) {
+    fail(`<${stack[stack.length - 1].name}> is never closed`);
+  }
+
+  const [documentElement] = root.children;
+  if (!documentElement) {
+    throw new ValidationError("XML document is empty");
+  }
+
+  return documentElement;
+}
+
+export function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+export function childText(element: XmlElement, name: string): string | undefined {
+  return element.children.find((child) => child.name === name)?.text;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, body: string) => {
+    if (body[0] === "#") {
+      const code = body[1].toLowerCase() === "x" ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[body.toLowerCase()] ?? entity;
+  });
+}
+
+function skipPast(source: string, terminator: string, from: number): number | undefined {
+  const end = source.indexOf(terminator, from);
+  return end === -1 ? undefined : end + terminator.length;
+}
@@ -7,7 +7,31 @@ export interface CommandOptions {
   extraSymbols?: boolean;
   excludeSimilar?: boolean;
   excludeAmbiguous?: boolean;
+  charset?: string;
+  include?: string;
+  exclude?: string;
   copy?: boolean;
+  clearAfter?: string;
   save?: boolean;
+  saveAs?: string;
+  replace?: boolean;
   showStrength?: boolean;
+  words?: string;
+  separator?: string;
+  capitalize?: string;
+  withNumber?: boolean;
+  withSymbol?: boolean;
+  pronounceable?: boolean;
+  pattern?: string;
+  minUpper?: string;
+  minLower?: string;
+  minNumbers?: string;
+  minSymbols?: string;
+  requireEachClass?: boolean;
+  count?: string;
+  format?: string;
+  unique?: boolean;
+  profile?: string;
+  rules?: string;
+  rulesFile?: string;
 }